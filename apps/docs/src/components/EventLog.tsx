@@ -6,18 +6,25 @@ interface EventLogProps {
 }
 
 const TYPE_COLORS: Record<string, string> = {
+  'init:queued': 'text-text-secondary',
   'init:start': 'text-warning',
   'init:done': 'text-accent',
   'init:cached': 'text-text-secondary',
   'init:error': 'text-error',
+  'dep:mount': 'text-text-secondary',
   'command:start': 'text-warning',
   'command:done': 'text-accent',
   'command:error': 'text-error',
+  'command:aborted': 'text-text-secondary',
+  'space:invalidated': 'text-warning',
+  log: 'text-text-secondary',
   custom: 'text-text-secondary',
 };
 
 function formatEvent(event: RfsEvent): string {
   switch (event.type) {
+    case 'init:queued':
+      return `init:queued ${event.kind}`;
     case 'init:start':
       return `init:start ${event.kind}`;
     case 'init:done':
@@ -26,12 +33,20 @@ function formatEvent(event: RfsEvent): string {
       return `init:cached ${event.kind}`;
     case 'init:error':
       return `init:error ${event.kind}: ${event.error.message}`;
+    case 'dep:mount':
+      return `dep:mount ${event.kind} ← ${event.depKind}`;
     case 'command:start':
       return `command:start ${event.kind}`;
     case 'command:done':
       return `command:done ${event.kind}`;
     case 'command:error':
       return `command:error ${event.kind}: ${event.error.message}`;
+    case 'command:aborted':
+      return `command:aborted ${event.kind}`;
+    case 'space:invalidated':
+      return `space:invalidated ${event.kind}`;
+    case 'log':
+      return `log ${event.kind} [${event.level}] ${event.message}`;
     case 'custom':
       return `custom ${event.kind}`;
   }
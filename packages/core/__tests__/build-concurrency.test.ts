@@ -0,0 +1,172 @@
+import { describe, it, expect } from 'vitest';
+import { createStore, defineKind } from '@radium-fs/core';
+import type { RfsEvent, RfsKind } from '@radium-fs/core';
+import { memoryAdapter } from '@radium-fs/memory';
+
+function createLimitedStore(concurrency: number) {
+  const store = createStore({ root: '/test', adapter: memoryAdapter(), concurrency });
+  const events: RfsEvent[] = [];
+  store.on((e) => events.push(e));
+  return { store, events };
+}
+
+function deferred() {
+  let resolve!: () => void;
+  const promise = new Promise<void>(r => { resolve = r; });
+  return { promise, resolve };
+}
+
+const tick = () => new Promise(r => setTimeout(r, 2));
+
+describe('RfsStoreOptions.concurrency', () => {
+  it('limits how many onInit calls run at once', async () => {
+    const { store, events } = createLimitedStore(2);
+    let active = 0;
+    let peak = 0;
+    const job = defineKind<{ id: number }>({
+      kind: 'job',
+      async onInit() {
+        active++;
+        peak = Math.max(peak, active);
+        await tick();
+        active--;
+      },
+    });
+
+    await Promise.all([0, 1, 2, 3, 4].map(id => store.ensure(job, { id })));
+
+    expect(peak).toBe(2);
+    expect(events.filter(e => e.type === 'init:queued')).toHaveLength(3);
+    expect(events.filter(e => e.type === 'init:done')).toHaveLength(5);
+  });
+
+  it('does not queue cache hits', async () => {
+    const { store, events } = createLimitedStore(1);
+    const job = defineKind<{}>({ kind: 'job', async onInit() {} });
+    await store.ensure(job, {});
+
+    events.length = 0;
+    await Promise.all([store.ensure(job, {}), store.ensure(job, {})]);
+
+    expect(events.map(e => e.type)).toEqual(['init:cached', 'init:cached']);
+  });
+
+  it('starts queued builds by descending priority', async () => {
+    const { store, events } = createLimitedStore(1);
+    const gate = deferred();
+    const order: string[] = [];
+    const job = defineKind<{ id: string }>({
+      kind: 'job',
+      async onInit({ input }) {
+        order.push(input.id);
+        if (input.id === 'blocker') await gate.promise;
+      },
+    });
+
+    const blocker = store.ensure(job, { id: 'blocker' });
+    await tick();
+    const low = store.ensure(job, { id: 'low' });
+    const mid = store.ensure(job, { id: 'mid' }, { priority: 1 });
+    const high = store.ensure(job, { id: 'high' }, { priority: 5 });
+    const alsoLow = store.ensure(job, { id: 'also-low' });
+    await tick();
+
+    expect(events.filter(e => e.type === 'init:queued').map(e => [e.input, e.priority])).toEqual([
+      [{ id: 'low' }, 0],
+      [{ id: 'mid' }, 1],
+      [{ id: 'high' }, 5],
+      [{ id: 'also-low' }, 0],
+    ]);
+
+    gate.resolve();
+    await Promise.all([blocker, low, mid, high, alsoLow]);
+    expect(order).toEqual(['blocker', 'high', 'mid', 'low', 'also-low']);
+  });
+
+  it('frees the slot while a build waits on its dependencies', async () => {
+    const { store } = createLimitedStore(1);
+    const chain: RfsKind<{ n: number }> = defineKind<{ n: number }>({
+      kind: 'chain',
+      async onInit({ input, space }) {
+        if (input.n === 0) return;
+        await space.dep('prev', chain, { n: input.n - 1 });
+        await space.deps({ a: [leaf, { n: input.n, id: 'a' }], b: [leaf, { n: input.n, id: 'b' }] });
+      },
+    });
+    const leaf = defineKind<{ n: number; id: string }>({ kind: 'leaf', async onInit() { await tick(); } });
+
+    const space = await store.ensure(chain, { n: 3 });
+
+    expect(space.manifest.dependencies!.map(d => d.mountPath)).toEqual(['prev', 'a', 'b']);
+    expect(await store.list('leaf')).toHaveLength(6);
+  });
+
+  it('gives dependencies the priority of the build that mounts them', async () => {
+    const { store, events } = createLimitedStore(1);
+    const gate = deferred();
+    const leaf = defineKind<{ id: string }>({
+      kind: 'leaf',
+      async onInit({ input }) {
+        if (input.id === 'blocker') await gate.promise;
+      },
+    });
+    const app = defineKind<{}>({
+      kind: 'app',
+      async onInit({ space }) {
+        await space.dep('leaf', leaf, { id: 'child' });
+      },
+    });
+
+    const blocker = store.ensure(leaf, { id: 'blocker' });
+    await tick();
+    const built = store.ensure(app, {}, { priority: 3 });
+    const other = store.ensure(leaf, { id: 'other' });
+    await tick();
+    gate.resolve();
+    await Promise.all([blocker, built, other]);
+
+    // app frees its slot to mount the child; 'other' takes it, so the child queues
+    expect(events.filter(e => e.type === 'init:queued').map(e => [e.input, e.priority])).toEqual([
+      [{}, 3],
+      [{ id: 'other' }, 0],
+      [{ id: 'child' }, 3],
+    ]);
+  });
+
+  it('reports an abort while queued and keeps the slot free', async () => {
+    const { store, events } = createLimitedStore(1);
+    const gate = deferred();
+    const queued: unknown[] = [];
+    const job = defineKind<{ id: string }>({
+      kind: 'job',
+      async onInit({ input }) {
+        if (input.id === 'blocker') await gate.promise;
+      },
+    });
+
+    const blocker = store.ensure(job, { id: 'blocker' });
+    await tick();
+    const controller = new AbortController();
+    const aborted = store.ensure(job, { id: 'aborted' }, {
+      signal: controller.signal,
+      onQueued: (ctx) => queued.push(ctx.input),
+    });
+    await tick();
+    controller.abort();
+
+    await expect(aborted).rejects.toThrow('Operation aborted');
+    expect(queued).toEqual([{ id: 'aborted' }]);
+    expect(events.filter(e => e.input && (e.input as { id?: string }).id === 'aborted').map(e => e.type))
+      .toEqual(['init:queued', 'init:error']);
+
+    gate.resolve();
+    await blocker;
+    await store.ensure(job, { id: 'after' });
+    expect(await store.has({ kind: 'job', input: { id: 'after' } })).toBe(true);
+  });
+
+  it('rejects an invalid limit', () => {
+    expect(() => createStore({ root: '/test', adapter: memoryAdapter(), concurrency: 0 }))
+      .toThrow('concurrency must be a positive integer or Infinity');
+  });
+});
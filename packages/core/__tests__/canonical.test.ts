@@ -60,4 +60,73 @@ describe('canonicalStringify', () => {
     const val = { c: [{ b: 2, a: 1 }], a: true };
     expect(canonicalStringify(val)).toBe('{"a":true,"c":[{"a":1,"b":2}]}');
   });
+
+  it('keeps shared (non-circular) references', () => {
+    const shared = { a: 1 };
+    expect(canonicalStringify({ x: shared, y: [shared] })).toBe('{"x":{"a":1},"y":[{"a":1}]}');
+  });
+});
+
+describe('canonicalStringify — non-JSON values', () => {
+  it('encodes Date with its ISO timestamp', () => {
+    expect(canonicalStringify(new Date(0))).toBe('Date("1970-01-01T00:00:00.000Z")');
+    expect(canonicalStringify(new Date(NaN))).toBe('Date(null)');
+    expect(canonicalStringify({ at: new Date(0) })).not.toBe(canonicalStringify({ at: {} }));
+    expect(canonicalStringify(new Date(0))).not.toBe(canonicalStringify('1970-01-01T00:00:00.000Z'));
+  });
+
+  it('encodes bigint', () => {
+    expect(canonicalStringify(12n)).toBe('12n');
+    expect(canonicalStringify({ n: 12n })).not.toBe(canonicalStringify({ n: 12 }));
+  });
+
+  it('encodes Map with entries sorted by key', () => {
+    const a = new Map<unknown, unknown>([['b', 2], ['a', { z: 1, y: 2 }]]);
+    const b = new Map<unknown, unknown>([['a', { y: 2, z: 1 }], ['b', 2]]);
+    expect(canonicalStringify(a)).toBe('Map([["a",{"y":2,"z":1}],["b",2]])');
+    expect(canonicalStringify(a)).toBe(canonicalStringify(b));
+    expect(canonicalStringify(new Map([[1, 'x']]))).not.toBe(canonicalStringify(new Map([['1', 'x']])));
+  });
+
+  it('encodes Set with sorted values', () => {
+    expect(canonicalStringify(new Set([3, 1, 2]))).toBe('Set([1,2,3])');
+    expect(canonicalStringify(new Set(['a', 'b']))).toBe(canonicalStringify(new Set(['b', 'a'])));
+    expect(canonicalStringify(new Set([1]))).not.toBe(canonicalStringify([1]));
+  });
+
+  it('encodes typed arrays with their type', () => {
+    expect(canonicalStringify(new Uint8Array([1, 2, 3]))).toBe('Uint8Array([1,2,3])');
+    expect(canonicalStringify(new Int8Array([1, 2, 3]))).toBe('Int8Array([1,2,3])');
+    expect(canonicalStringify(new BigInt64Array([1n]))).toBe('BigInt64Array([1n])');
+    expect(canonicalStringify(new DataView(new Uint8Array([9, 8]).buffer))).toBe('DataView([9,8])');
+    expect(canonicalStringify(new Uint8Array([1]))).not.toBe(canonicalStringify(new Uint8Array([2])));
+  });
+
+  it('keeps non-finite typed array elements apart', () => {
+    expect(canonicalStringify(new Float64Array([NaN, Infinity, -Infinity, 1.5])))
+      .toBe('Float64Array([NaN,Infinity,-Infinity,1.5])');
+    expect(canonicalStringify(new Float32Array([NaN]))).not.toBe(canonicalStringify(new Float32Array([Infinity])));
+  });
+
+  it('throws on circular references', () => {
+    const value: Record<string, unknown> = { a: 1 };
+    value.self = value;
+    expect(() => canonicalStringify(value)).toThrow('circular reference at $.self');
+
+    const list: unknown[] = [];
+    list.push({ list });
+    expect(() => canonicalStringify(list)).toThrow('circular reference at $[0].list');
+  });
+
+  it('serializes functions and symbols as null by default', () => {
+    expect(canonicalStringify({ f: () => 1, s: Symbol('s') })).toBe('{"f":null,"s":null}');
+  });
+
+  it('throws on unsupported values with unsupported: throw', () => {
+    const strict = { unsupported: 'throw' } as const;
+    expect(() => canonicalStringify({ a: { f: () => 1 } }, strict)).toThrow('cannot serialize function at $.a.f');
+    expect(() => canonicalStringify([Symbol('s')], strict)).toThrow('cannot serialize symbol at $[0]');
+    expect(() => canonicalStringify({ r: /x/ }, strict)).toThrow('cannot serialize RegExp instance at $.r');
+    expect(canonicalStringify({ d: new Date(0), o: Object.create(null) }, strict)).toBe('{"d":Date("1970-01-01T00:00:00.000Z"),"o":{}}');
+  });
 });
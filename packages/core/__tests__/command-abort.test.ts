@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import { defineKind } from '@radium-fs/core';
+import type { RfsEvent } from '@radium-fs/core';
+import { createTestStore } from './helpers';
+
+function waitForAbort(signal: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal.aborted) resolve();
+    else signal.addEventListener('abort', () => resolve(), { once: true });
+  });
+}
+
+const slow = defineKind<{}, { value: string }>({
+  kind: 'slow',
+  async onInit({ space }) {
+    await space.writeFile('value.txt', 'initial');
+    return { metadata: { value: 'initial' } };
+  },
+  async onCommand({ command, space, signal }) {
+    await waitForAbort(signal);
+    await space.writeFile('value.txt', command.value);
+    return { metadata: { value: command.value } };
+  },
+});
+
+describe('space.send — cancellation', () => {
+  it('forwards the caller signal to onCommand', async () => {
+    const { store } = createTestStore();
+    const space = await store.ensure(slow, {});
+    const controller = new AbortController();
+
+    const pending = space.send({ value: 'next' }, { signal: controller.signal });
+    controller.abort(new Error('stop'));
+
+    await expect(pending).rejects.toThrow('stop');
+  });
+
+  it('rejects without running onCommand when the signal is already aborted', async () => {
+    const { store } = createTestStore();
+    let calls = 0;
+
+    const kind = defineKind<{}, {}>({
+      kind: 'pre-aborted',
+      async onInit() {},
+      async onCommand() {
+        calls++;
+      },
+    });
+
+    const space = await store.ensure(kind, {});
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(space.send({}, { signal: controller.signal })).rejects.toThrow('aborted');
+    expect(calls).toBe(0);
+  });
+
+  it('aborts after timeoutMs', async () => {
+    const { store } = createTestStore();
+    const space = await store.ensure(slow, {});
+
+    await expect(space.send({ value: 'next' }, { timeoutMs: 5 })).rejects.toThrow('timed out after 5ms');
+  });
+
+  it('leaves the manifest untouched', async () => {
+    const { store } = createTestStore();
+    const space = await store.ensure(slow, {});
+
+    await expect(space.send({ value: 'next' }, { timeoutMs: 5 })).rejects.toThrow();
+
+    const found = await store.find(space.origin);
+    expect(found!.manifest.metadata).toEqual({ value: 'initial' });
+    expect(found!.manifest.commandLog).toBeUndefined();
+    expect(await space.history()).toEqual([]);
+  });
+
+  it('emits command:aborted instead of command:error', async () => {
+    const { store } = createTestStore();
+    const space = await store.ensure(slow, {});
+
+    const globalEvents: RfsEvent[] = [];
+    store.on((e) => globalEvents.push(e));
+    const reasons: unknown[] = [];
+    space.on('command:aborted', (e) => reasons.push(e.reason));
+
+    const controller = new AbortController();
+    const reason = new Error('user cancelled');
+    const pending = space.send({ value: 'next' }, { signal: controller.signal });
+    await new Promise((r) => setTimeout(r, 1));
+    controller.abort(reason);
+    await expect(pending).rejects.toBe(reason);
+
+    expect(globalEvents.map(e => e.type)).toEqual(['command:start', 'command:aborted']);
+    expect(reasons).toEqual([reason]);
+  });
+
+  it('completes normally when the signal never aborts', async () => {
+    const { store } = createTestStore();
+
+    const kind = defineKind<{}, { value: string }>({
+      kind: 'fast',
+      async onInit() {},
+      async onCommand({ command }) {
+        return { metadata: { value: command.value } };
+      },
+    });
+
+    const space = await store.ensure(kind, {});
+    const controller = new AbortController();
+    const result = await space.send({ value: 'ok' }, { signal: controller.signal, timeoutMs: 1000 });
+
+    expect(result.metadata).toEqual({ value: 'ok' });
+  });
+});
@@ -0,0 +1,156 @@
+import { describe, it, expect } from 'vitest';
+import { createStore, defineKind, RFS_COMMAND_LOG_FILENAME, RFS_MANIFEST_FILENAME } from '@radium-fs/core';
+import type { RfsAdapter } from '@radium-fs/core';
+import { memoryAdapter } from '@radium-fs/memory';
+import { createTestStore } from './helpers';
+
+const counter = defineKind<{}, { n: number }>({
+  kind: 'counter',
+  async onInit() {
+    return { metadata: { n: 0 } };
+  },
+  async onCommand({ command }) {
+    return { metadata: { n: command.n } };
+  },
+});
+
+function decode(bytes: Uint8Array): string {
+  return new TextDecoder().decode(bytes);
+}
+
+function dataDirOf(spacePath: string): string {
+  return spacePath.replace(/\/space$/, '');
+}
+
+describe('command log', () => {
+  it('appends one JSON line per command next to the manifest', async () => {
+    const { store, adapter } = createTestStore();
+    const space = await store.ensure(counter, {});
+
+    await space.send({ n: 1 });
+    await space.send({ n: 2 });
+
+    const raw = decode(await adapter.readFile(`${dataDirOf(space.path)}/${RFS_COMMAND_LOG_FILENAME}`));
+    const lines = raw.split('\n').filter(Boolean).map(line => JSON.parse(line));
+    expect(lines.map(r => [r.seq, r.command])).toEqual([[1, { n: 1 }], [2, { n: 2 }]]);
+    expect(lines[1].result).toEqual({ exports: { '.': '.' }, metadata: { n: 2 } });
+  });
+
+  it('falls back to read + write for adapters without appendFile', async () => {
+    const base = memoryAdapter();
+    const adapter: RfsAdapter = { ...base, appendFile: undefined };
+    const store = createStore({ root: '/test', adapter });
+    const space = await store.ensure(counter, {});
+
+    await space.send({ n: 1 });
+    await space.send({ n: 2 });
+
+    expect((await space.history()).map(r => r.seq)).toEqual([1, 2]);
+  });
+
+  it('skips a torn trailing line', async () => {
+    const { store, adapter } = createTestStore();
+    const space = await store.ensure(counter, {});
+    await space.send({ n: 1 });
+
+    await adapter.appendFile!(`${dataDirOf(space.path)}/${RFS_COMMAND_LOG_FILENAME}`, '\n{"seq":2,"comm');
+    expect((await space.history()).map(r => r.seq)).toEqual([1]);
+
+    await space.send({ n: 2 });
+    expect((await space.history()).map(r => r.seq)).toEqual([1, 2]);
+  });
+
+  it('moves history kept in the manifest by earlier versions into the log', async () => {
+    const { store, adapter } = createTestStore();
+    const space = await store.ensure(counter, {});
+    const manifestPath = `${dataDirOf(space.path)}/${RFS_MANIFEST_FILENAME}`;
+
+    const manifest = JSON.parse(decode(await adapter.readFile(manifestPath)));
+    manifest.commands = [
+      { command: { n: 10 }, executedAt: '2024-01-01T00:00:00.000Z' },
+      { command: { n: 11 }, executedAt: '2024-01-02T00:00:00.000Z' },
+    ];
+    await adapter.writeFile(manifestPath, JSON.stringify(manifest));
+
+    expect((await space.history()).map(r => [r.seq, r.command])).toEqual([[1, { n: 10 }], [2, { n: 11 }]]);
+
+    await space.send({ n: 12 });
+
+    const updated = JSON.parse(decode(await adapter.readFile(manifestPath)));
+    expect(updated.commands).toBeUndefined();
+    expect(updated.commandLog).toEqual({ lastSeq: 3, entries: 3 });
+    expect((await space.history()).map(r => r.command)).toEqual([{ n: 10 }, { n: 11 }, { n: 12 }]);
+  });
+});
+
+describe('space.history()', () => {
+  it('is empty before the first command', async () => {
+    const { store } = createTestStore();
+    const space = await store.ensure(counter, {});
+    expect(await space.history()).toEqual([]);
+  });
+
+  it('returns the most recent records with limit', async () => {
+    const { store } = createTestStore();
+    const space = await store.ensure(counter, {});
+    for (let n = 1; n <= 5; n++) await space.send({ n });
+
+    expect((await space.history({ limit: 2 })).map(r => r.seq)).toEqual([4, 5]);
+    expect(await space.history({ limit: 0 })).toEqual([]);
+  });
+
+  it('returns records after a sequence number with since', async () => {
+    const { store } = createTestStore();
+    const space = await store.ensure(counter, {});
+    for (let n = 1; n <= 5; n++) await space.send({ n });
+
+    expect((await space.history({ since: 3 })).map(r => r.seq)).toEqual([4, 5]);
+    expect((await space.history({ since: 1, limit: 2 })).map(r => r.seq)).toEqual([4, 5]);
+    expect(await space.history({ since: 5 })).toEqual([]);
+  });
+});
+
+describe('commandLog.maxEntries', () => {
+  it('compacts the log once it holds twice maxEntries records', async () => {
+    const adapter = memoryAdapter();
+    const store = createStore({ root: '/test', adapter, commandLog: { maxEntries: 2 } });
+    const space = await store.ensure(counter, {});
+    const logPath = `${dataDirOf(space.path)}/${RFS_COMMAND_LOG_FILENAME}`;
+    const lineCount = async () => decode(await adapter.readFile(logPath)).split('\n').filter(Boolean).length;
+
+    for (let n = 1; n <= 3; n++) await space.send({ n });
+    expect(await lineCount()).toBe(3);
+
+    await space.send({ n: 4 });
+    expect(await lineCount()).toBe(2);
+    expect((await space.history()).map(r => r.seq)).toEqual([3, 4]);
+
+    await space.send({ n: 5 });
+    expect((await space.history()).map(r => r.seq)).toEqual([3, 4, 5]);
+
+    const found = await store.find(space.origin);
+    expect(found!.manifest.commandLog).toEqual({ lastSeq: 5, entries: 3 });
+  });
+
+  it('leaves the log whole when compaction is interrupted', async () => {
+    const base = memoryAdapter();
+    let crash = false;
+    const adapter: RfsAdapter = {
+      ...base,
+      async rename(from, to) {
+        if (crash && to.endsWith('/' + RFS_COMMAND_LOG_FILENAME)) throw new Error('crashed');
+        return base.rename(from, to);
+      },
+    };
+    const store = createStore({ root: '/test', adapter, commandLog: { maxEntries: 2 } });
+    const space = await store.ensure(counter, {});
+    const logPath = `${dataDirOf(space.path)}/${RFS_COMMAND_LOG_FILENAME}`;
+
+    for (let n = 1; n <= 3; n++) await space.send({ n });
+    crash = true;
+    await expect(space.send({ n: 4 })).rejects.toThrow('crashed');
+
+    const lines = decode(await adapter.readFile(logPath)).split('\n').filter(Boolean);
+    expect(lines.map(line => JSON.parse(line).seq)).toEqual([1, 2, 3, 4]);
+  });
+});
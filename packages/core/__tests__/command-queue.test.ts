@@ -0,0 +1,265 @@
+import { describe, it, expect } from 'vitest';
+import { createStore, defineKind, memoryLocker } from '@radium-fs/core';
+import type { RfsLocker } from '@radium-fs/core';
+import { memoryAdapter } from '@radium-fs/memory';
+import { createTestStore } from './helpers';
+
+const tick = () => new Promise((r) => setTimeout(r, 1));
+
+const counter = defineKind<{}, { delay: number }>({
+  kind: 'counter',
+  async onInit() {
+    return { metadata: { count: 0 } };
+  },
+  async onCommand({ command, current }) {
+    const count = current.metadata.count as number;
+    await new Promise((r) => setTimeout(r, command.delay));
+    return { metadata: { count: count + 1 } };
+  },
+});
+
+describe('command serialization', () => {
+  it('concurrent sends do not lose updates', async () => {
+    const { store } = createTestStore();
+    const space = await store.ensure(counter, {});
+
+    const results = await Promise.all([
+      space.send({ delay: 5 }),
+      space.send({ delay: 1 }),
+      space.send({ delay: 0 }),
+    ]);
+
+    expect(results.map(r => r.metadata.count)).toEqual([1, 2, 3]);
+
+    const found = await store.find(space.origin);
+    expect(found!.manifest.metadata.count).toBe(3);
+    expect(await space.history()).toHaveLength(3);
+  });
+
+  it('serializes across space objects for the same dataId', async () => {
+    const { store } = createTestStore();
+    const a = await store.ensure(counter, {});
+    const b = await store.ensure(counter, {});
+
+    await Promise.all([a.send({ delay: 3 }), b.send({ delay: 0 })]);
+
+    const found = await store.find(a.origin);
+    expect(found!.manifest.metadata.count).toBe(2);
+  });
+
+  it('does not block commands on other spaces', async () => {
+    const { store } = createTestStore();
+    const order: string[] = [];
+
+    const kind = defineKind<{ id: string }, { delay: number }>({
+      kind: 'independent',
+      async onInit() {},
+      async onCommand({ command, space }) {
+        await new Promise((r) => setTimeout(r, command.delay));
+        order.push(space.path);
+      },
+    });
+
+    const slow = await store.ensure(kind, { id: 'slow' });
+    const fast = await store.ensure(kind, { id: 'fast' });
+    await Promise.all([slow.send({ delay: 20 }), fast.send({ delay: 0 })]);
+
+    expect(order).toEqual([fast.path, slow.path]);
+  });
+
+  it('a failed command does not block the queue', async () => {
+    const { store } = createTestStore();
+
+    const kind = defineKind<{}, { fail: boolean }>({
+      kind: 'flaky',
+      async onInit() {},
+      async onCommand({ command }) {
+        if (command.fail) throw new Error('boom');
+      },
+    });
+
+    const space = await store.ensure(kind, {});
+    const failed = space.send({ fail: true });
+    const ok = space.send({ fail: false });
+
+    await expect(failed).rejects.toThrow('boom');
+    await expect(ok).resolves.toBeDefined();
+  });
+
+  it('takes the store locker under cmd:{dataId}', async () => {
+    const keys: string[] = [];
+    const inner = memoryLocker();
+    const locker: RfsLocker = {
+      acquire(key, signal) {
+        keys.push(key);
+        return inner.acquire(key, signal);
+      },
+    };
+    const store = createStore({ root: '/test', adapter: memoryAdapter(), locker });
+
+    const space = await store.ensure(counter, {});
+    await space.send({ delay: 0 });
+
+    expect(keys[0]).toBe(space.dataId);
+    expect(keys.slice(1).sort()).toEqual([`cmd:${space.dataId}`, expect.stringMatching(/^pending:/)]);
+  });
+});
+
+describe('space.pendingCommands()', () => {
+  it('reports queued and running commands in send order', async () => {
+    const { store } = createTestStore();
+    let release!: () => void;
+    const gate = new Promise<void>((r) => { release = r; });
+
+    const kind = defineKind<{}, { n: number }>({
+      kind: 'gated',
+      async onInit() {},
+      async onCommand() {
+        await gate;
+      },
+    });
+
+    const space = await store.ensure(kind, {});
+    expect(await space.pendingCommands()).toEqual([]);
+
+    const first = space.send({ n: 1 });
+    const second = space.send({ n: 2 });
+    await tick();
+
+    const pending = await space.pendingCommands();
+    expect(pending.map(p => [p.command.n, p.status])).toEqual([[1, 'running'], [2, 'queued']]);
+    expect(typeof pending[0].enqueuedAt).toBe('string');
+
+    release();
+    await Promise.all([first, second]);
+    expect(await space.pendingCommands()).toEqual([]);
+  });
+
+  it('a command aborted while queued leaves without running', async () => {
+    const { store } = createTestStore();
+    const events: string[] = [];
+    let release!: () => void;
+    const gate = new Promise<void>((r) => { release = r; });
+    const ran: number[] = [];
+
+    const kind = defineKind<{}, { n: number }>({
+      kind: 'abort-queued',
+      async onInit() {},
+      async onCommand({ command }) {
+        ran.push(command.n);
+        await gate;
+      },
+    });
+
+    const space = await store.ensure(kind, {});
+    store.on((e) => events.push(e.type));
+
+    const controller = new AbortController();
+    const first = space.send({ n: 1 });
+    const second = space.send({ n: 2 }, { signal: controller.signal });
+    await tick();
+
+    controller.abort();
+    await expect(second).rejects.toThrow('aborted');
+    expect((await space.pendingCommands()).map(p => p.command.n)).toEqual([1]);
+
+    release();
+    await first;
+    expect(ran).toEqual([1]);
+    expect(events).toEqual(['command:start', 'command:aborted', 'command:done']);
+  });
+
+  it('rejects a send to the same space from inside its onCommand instead of waiting forever', async () => {
+    const { store } = createTestStore();
+    const errors: string[] = [];
+
+    const kind = defineKind<{}, { nested: boolean }>({
+      kind: 'reentrant',
+      async onInit() {},
+      async onCommand({ command }) {
+        await tick();
+        if (command.nested) {
+          const self = await store.ensure(kind, {});
+          await self.send({ nested: false }).catch((err) => { errors.push(err.message); });
+          await self.snapshot('inner').catch((err) => { errors.push(err.message); });
+        }
+      },
+    });
+
+    const space = await store.ensure(kind, {});
+    await space.send({ nested: true });
+
+    expect(errors).toHaveLength(2);
+    expect(errors[0]).toMatch(/^send: called from inside onCommand of space/);
+    expect(errors[1]).toMatch(/^snapshot: called from inside onCommand of space/);
+    expect(await space.history()).toHaveLength(1);
+  });
+
+  it('still lets onCommand send to other spaces', async () => {
+    const { store } = createTestStore();
+    const space = await store.ensure(counter, {});
+
+    const relay = defineKind<{}, {}>({
+      kind: 'relay',
+      async onInit() {},
+      async onCommand() {
+        await space.send({ delay: 0 });
+      },
+    });
+
+    await (await store.ensure(relay, {})).send({});
+    expect((await store.find(space.origin))!.manifest.metadata.count).toBe(1);
+  });
+});
+
+describe('space.resumeCommands()', () => {
+  /** onCommand of `{ n: 1 }` waits for the gate, if any */
+  const durable = (gate?: Promise<void>) => defineKind<{}, { n: number }>({
+    kind: 'durable',
+    async onInit() {
+      return { metadata: { total: 0 } };
+    },
+    async onCommand({ command, current }) {
+      if (command.n === 1 && gate) await gate;
+      return { metadata: { total: (current.metadata.total as number) + command.n } };
+    },
+  });
+
+  it('lists commands pending in another store on the same root', async () => {
+    const adapter = memoryAdapter();
+    const locker = memoryLocker();
+    const a = createStore({ root: '/test', adapter, locker });
+    const b = createStore({ root: '/test', adapter, locker });
+    let release!: () => void;
+    const kind = durable(new Promise<void>((r) => { release = r; }));
+
+    const sent = (await a.ensure(kind, {})).send({ n: 1 });
+    await tick();
+
+    const other = await b.ensure(kind, {});
+    expect((await other.pendingCommands()).map(p => [p.command.n, p.status])).toEqual([[1, 'running']]);
+    expect(await other.resumeCommands()).toBe(0);
+
+    release();
+    await sent;
+    expect(await other.pendingCommands()).toEqual([]);
+  });
+
+  it('runs again a command whose sender exited before it settled', async () => {
+    const adapter = memoryAdapter();
+    const stuck = durable(new Promise<void>(() => { /* the sender never gets past onCommand */ }));
+
+    // The first store stands for a process that exited: its locks are gone
+    const exited = createStore({ root: '/test', adapter, locker: memoryLocker() });
+    void (await exited.ensure(stuck, {})).send({ n: 1 });
+    await tick();
+
+    const store = createStore({ root: '/test', adapter, locker: memoryLocker() });
+    const space = await store.ensure(durable(), {});
+
+    expect(await space.resumeCommands()).toBe(1);
+    expect(await space.pendingCommands()).toEqual([]);
+    expect((await space.history()).map(r => 'command' in r && r.command)).toEqual([{ n: 1 }]);
+    expect((await store.find(space.origin))!.manifest.metadata.total).toBe(1);
+  });
+});
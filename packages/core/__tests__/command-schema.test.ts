@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import { defineKind, RfsValidationError } from '@radium-fs/core';
+import type { RfsEvent, RfsSchema } from '@radium-fs/core';
+import { createTestStore } from './helpers';
+
+type AddCommand = { by: number };
+
+// Hand-written Standard Schema: accepts { by: number }, coerces numeric strings
+const addSchema: RfsSchema<AddCommand> = {
+  '~standard': {
+    version: 1,
+    vendor: 'test',
+    validate(value) {
+      const by = (value as { by?: unknown } | null)?.by;
+      if (typeof by === 'number') return { value: { by } };
+      if (typeof by === 'string' && by.trim() !== '' && !Number.isNaN(Number(by))) {
+        return { value: { by: Number(by) } };
+      }
+      return { issues: [{ message: 'Expected a number', path: [{ key: 'by' }] }] };
+    },
+  },
+};
+
+const counter = defineKind<{}, AddCommand>({
+  kind: 'counter',
+  commandSchema: addSchema,
+  async onInit() {
+    return { metadata: { count: 0 } };
+  },
+  async onCommand({ command, current }) {
+    return { metadata: { count: (current.metadata.count as number) + command.by } };
+  },
+});
+
+describe('commandSchema', () => {
+  it('accepts valid commands', async () => {
+    const { store } = createTestStore();
+    const space = await store.ensure(counter, {});
+
+    const result = await space.send({ by: 2 });
+    expect(result.metadata).toEqual({ count: 2 });
+  });
+
+  it('passes the validated value to onCommand and the log', async () => {
+    const { store } = createTestStore();
+    const space = await store.ensure(counter, {});
+
+    const result = await space.send({ by: '3' as unknown as number });
+    expect(result.metadata).toEqual({ count: 3 });
+    expect((await space.history()).map(r => r.command)).toEqual([{ by: 3 }]);
+  });
+
+  it('throws RfsValidationError with the reported issues', async () => {
+    const { store } = createTestStore();
+    const space = await store.ensure(counter, {});
+
+    const error = await space.send({ by: 'x' as unknown as number }).catch((err: unknown) => err);
+
+    expect(error).toBeInstanceOf(RfsValidationError);
+    expect((error as RfsValidationError).message).toBe('Invalid command for kind "counter": by: Expected a number');
+    expect((error as RfsValidationError).issues).toEqual([{ message: 'Expected a number', path: [{ key: 'by' }] }]);
+  });
+
+  it('rejects before command:start and records nothing', async () => {
+    const { store } = createTestStore();
+    const space = await store.ensure(counter, {});
+    const events: RfsEvent[] = [];
+    store.on((e) => events.push(e));
+
+    await expect(space.send({} as AddCommand)).rejects.toThrow(RfsValidationError);
+
+    expect(events).toEqual([]);
+    expect(await space.history()).toEqual([]);
+    expect(await space.pendingCommands()).toEqual([]);
+  });
+
+  it('supports async validators', async () => {
+    const { store } = createTestStore();
+    const asyncCounter = defineKind<{}, AddCommand>({
+      kind: 'async-counter',
+      commandSchema: {
+        '~standard': {
+          version: 1,
+          vendor: 'test',
+          validate: async value => addSchema['~standard'].validate(value),
+        },
+      },
+      async onInit() {
+        return { metadata: { count: 0 } };
+      },
+      async onCommand({ command, current }) {
+        return { metadata: { count: (current.metadata.count as number) + command.by } };
+      },
+    });
+    const space = await store.ensure(asyncCounter, {});
+
+    await expect(space.send({ by: null } as unknown as AddCommand)).rejects.toThrow('by: Expected a number');
+    expect((await space.send({ by: 1 })).metadata).toEqual({ count: 1 });
+  });
+});
@@ -58,23 +58,22 @@ describe('command system', () => {
     const manifest = JSON.parse(raw);
 
     expect(manifest.metadata.count).toBe(1);
-    expect(manifest.commands).toHaveLength(1);
-    expect(manifest.commands[0].command).toEqual({ action: 'inc' });
+    expect(manifest.commands).toBeUndefined();
+    expect(manifest.commandLog).toEqual({ lastSeq: 1, entries: 1 });
   });
 
   it('multiple sends accumulate command history', async () => {
-    const { store, adapter } = createTestStore();
+    const { store } = createTestStore();
     const space = await store.ensure(counter, {});
 
     await space.send({ action: 'inc' });
     await space.send({ action: 'inc' });
     await space.send({ action: 'dec' });
 
-    const manifestPath = space.path.replace(/\/space$/, '/.radium-fs-manifest.json');
-    const raw = new TextDecoder().decode(await adapter.readFile(manifestPath));
-    const manifest = JSON.parse(raw);
-
-    expect(manifest.commands).toHaveLength(3);
+    const history = await space.history();
+    expect(history).toHaveLength(3);
+    expect(history.map(r => r.seq)).toEqual([1, 2, 3]);
+    expect(history[2].command).toEqual({ action: 'dec' });
   });
 
   it('onCommand receives current state', async () => {
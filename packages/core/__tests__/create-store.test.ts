@@ -183,6 +183,56 @@ describe('createStore — cacheKey', () => {
   });
 });
 
+describe('createStore — version', () => {
+  it('bumping the version forces a fresh build', async () => {
+    const { store } = createTestStore();
+    const calls: string[] = [];
+
+    const v1 = defineKind<{ name: string }>({
+      kind: 'versioned',
+      version: 1,
+      async onInit() { calls.push('v1'); },
+    });
+    const v2 = defineKind<{ name: string }>({
+      kind: 'versioned',
+      version: 2,
+      async onInit() { calls.push('v2'); },
+    });
+
+    const s1 = await store.ensure(v1, { name: 'a' });
+    const s2 = await store.ensure(v2, { name: 'a' });
+
+    expect(calls).toEqual(['v1', 'v2']);
+    expect(s1.dataId).not.toBe(s2.dataId);
+  });
+
+  it('records the version in origin and keeps old versions findable', async () => {
+    const { store } = createTestStore();
+
+    const v1 = defineKind({ kind: 'versioned-find', version: '1.0', async onInit() {} });
+    const v2 = defineKind({ kind: 'versioned-find', version: '2.0', async onInit() {} });
+
+    const old = await store.ensure(v1, {});
+    await store.ensure(v2, {});
+
+    expect(old.manifest.origin.version).toBe('1.0');
+
+    const found = await store.find({ kind: 'versioned-find', input: {}, version: '1.0' });
+    expect(found!.dataId).toBe(old.dataId);
+    expect(await store.has({ kind: 'versioned-find', input: {} })).toBe(false);
+  });
+
+  it('unversioned kinds keep their dataId', async () => {
+    const { store } = createTestStore();
+
+    const plain = defineKind({ kind: 'plain', async onInit() {} });
+    const space = await store.ensure(plain, {});
+
+    expect(space.manifest.origin.version).toBeUndefined();
+    expect(space.dataId).toBe(await store.adapter.hash(new TextEncoder().encode('plain\0{}')));
+  });
+});
+
 describe('createStore — runtime', () => {
   it('passes store-level runtime to onInit', async () => {
     const { store } = createTestStore({ runtime: { apiKey: 'secret' } });
@@ -0,0 +1,164 @@
+import { describe, it, expect } from 'vitest';
+import { defineKind, RfsCycleError } from '@radium-fs/core';
+import type { RfsEvent, RfsKind } from '@radium-fs/core';
+import { createTestStore } from './helpers';
+
+describe('dependency cycles', () => {
+  it('rejects a space that depends on itself', async () => {
+    const { store } = createTestStore();
+    const loop: RfsKind<{ id: string }> = defineKind<{ id: string }>({
+      kind: 'loop',
+      async onInit({ input, space }) {
+        await space.dep('self', loop, input);
+      },
+    });
+
+    const error = await store.ensure(loop, { id: 'x' }).catch((err: unknown) => err);
+
+    expect(error).toBeInstanceOf(RfsCycleError);
+    const { cycle } = error as RfsCycleError;
+    expect(cycle.map(frame => frame.kind)).toEqual(['loop', 'loop']);
+    expect(cycle[0].dataId).toBe(cycle[1].dataId);
+    expect((error as Error).message).toBe(`Dependency cycle: loop(${cycle[0].dataId.slice(0, 8)}) -> loop(${cycle[0].dataId.slice(0, 8)})`);
+  });
+
+  it('lists the full path of a transitive cycle', async () => {
+    const { store } = createTestStore();
+    const kinds: Record<string, RfsKind<{}>> = {};
+    const chain = (name: string, next: string) => defineKind<{}>({
+      kind: name,
+      async onInit({ space }) {
+        await space.dep('next', kinds[next], {});
+      },
+    });
+    kinds.a = chain('a', 'b');
+    kinds.b = chain('b', 'c');
+    kinds.c = chain('c', 'b');
+
+    const events: RfsEvent[] = [];
+    store.on((e) => events.push(e));
+
+    const error = await store.ensure(kinds.a, {}).catch((err: unknown) => err);
+
+    expect(error).toBeInstanceOf(RfsCycleError);
+    expect((error as RfsCycleError).cycle.map(frame => frame.kind)).toEqual(['b', 'c', 'b']);
+    expect(events.filter(e => e.type === 'init:error').map(e => e.kind)).toEqual(['c', 'b', 'a']);
+    expect(await store.list()).toEqual([]);
+  });
+
+  it('detects cycles through local-scope dependencies', async () => {
+    const { store } = createTestStore();
+    const loop: RfsKind<{}> = defineKind<{}>({
+      kind: 'local-loop',
+      async onInit({ space }) {
+        await space.dep('self', loop, {}, { scope: 'local' });
+      },
+    });
+
+    await expect(store.ensure(loop, {})).rejects.toThrow(RfsCycleError);
+  });
+
+  it('allows a kind to depend on itself with different input', async () => {
+    const { store } = createTestStore();
+    const countdown: RfsKind<{ n: number }> = defineKind<{ n: number }>({
+      kind: 'countdown',
+      async onInit({ input, space }) {
+        await space.writeFile('n.txt', String(input.n));
+        if (input.n > 0) await space.dep('next', countdown, { n: input.n - 1 });
+      },
+    });
+
+    await store.ensure(countdown, { n: 3 });
+    expect(await store.list('countdown')).toHaveLength(4);
+  });
+
+  it('allows the same dependency twice in one space', async () => {
+    const { store } = createTestStore();
+    const leaf = defineKind<{}>({ kind: 'leaf', async onInit() {} });
+    const root = defineKind<{}>({
+      kind: 'root',
+      async onInit({ space }) {
+        await space.dep('a', leaf, {});
+        await space.dep('b', leaf, {});
+      },
+    });
+
+    const space = await store.ensure(root, {});
+    expect(space.manifest.dependencies).toHaveLength(2);
+  });
+
+  it('rejects cyclic input objects', async () => {
+    const { store } = createTestStore();
+    const kind = defineKind<Record<string, unknown>>({ kind: 'cyclic-input', async onInit() {} });
+    const input: Record<string, unknown> = {};
+    input.self = input;
+
+    await expect(store.ensure(kind, input)).rejects.toThrow('circular reference at $.self');
+  });
+
+  describe('across parallel branches', () => {
+    /** b mounts c and c mounts b, each once both have started building */
+    function crossedPair(prefix: string) {
+      const kinds: Record<string, RfsKind<{}>> = {};
+      let started = 0;
+      let open!: () => void;
+      const bothStarted = new Promise<void>((resolve) => { open = resolve; });
+      const side = (name: string, other: string) => defineKind<{}>({
+        kind: `${prefix}-${name}`,
+        async onInit({ space }) {
+          if (++started === 2) open();
+          await bothStarted;
+          await space.dep('other', kinds[other], {});
+        },
+      });
+      kinds.b = side('b', 'c');
+      kinds.c = side('c', 'b');
+      return kinds;
+    }
+
+    it('rejects instead of deadlocking when parallel deps mount each other', async () => {
+      const { store } = createTestStore();
+      const { b, c } = crossedPair('deps');
+      const a = defineKind<{}>({
+        kind: 'deps-a',
+        async onInit({ space }) {
+          await space.deps({ b: [b, {}], c: [c, {}] });
+        },
+      });
+
+      const error = await store.ensure(a, {}).catch((err: unknown) => err);
+
+      expect(error).toBeInstanceOf(RfsCycleError);
+      // Whichever branch waits second closes the loop
+      expect([['deps-b', 'deps-c', 'deps-b'], ['deps-c', 'deps-b', 'deps-c']])
+        .toContainEqual((error as RfsCycleError).cycle.map(frame => frame.kind));
+      expect(await store.list()).toEqual([]);
+    });
+
+    it('rejects instead of deadlocking when concurrent ensures mount each other', async () => {
+      const { store } = createTestStore();
+      const { b, c } = crossedPair('top');
+
+      const results = await Promise.allSettled([store.ensure(b, {}), store.ensure(c, {})]);
+
+      for (const result of results) {
+        expect(result.status).toBe('rejected');
+        expect((result as PromiseRejectedResult).reason).toBeInstanceOf(RfsCycleError);
+      }
+    });
+
+    it('rejects instead of deadlocking when static dependencies mount each other', async () => {
+      const { store } = createTestStore();
+      const kinds: Record<string, RfsKind<{}>> = {};
+      kinds.b = defineKind<{}>({ kind: 'static-b', dependencies: () => ({ other: [kinds.c, {}] }), async onInit() {} });
+      kinds.c = defineKind<{}>({ kind: 'static-c', dependencies: () => ({ other: [kinds.b, {}] }), async onInit() {} });
+      const a = defineKind<{}>({
+        kind: 'static-a',
+        dependencies: () => ({ b: [kinds.b, {}], c: [kinds.c, {}] }),
+        async onInit() {},
+      });
+
+      await expect(store.ensure(a, {})).rejects.toThrow(RfsCycleError);
+    });
+  });
+});
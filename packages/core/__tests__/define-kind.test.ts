@@ -28,6 +28,50 @@ describe('defineKind', () => {
     expect(kind.cacheKey).toBeUndefined();
   });
 
+  it('keeps the version', () => {
+    const kind = defineKind({ kind: 'v', version: 3, async onInit() {} });
+    expect(kind.version).toBe(3);
+  });
+
+  it('keeps the transactional flag', () => {
+    const kind = defineKind({ kind: 'tx', transactional: true, async onInit() {} });
+    expect(kind.transactional).toBe(true);
+  });
+
+  it('throws if dependencies is not a function', () => {
+    expect(() =>
+      defineKind({ kind: 'bad', dependencies: {} as never, async onInit() {} }),
+    ).toThrow('dependencies must be a function of the input');
+  });
+
+  it('throws if inputSchema is not a Standard Schema', () => {
+    expect(() =>
+      defineKind({ kind: 'bad', inputSchema: { '~standard': {} } as never, async onInit() {} }),
+    ).toThrow('inputSchema must implement the Standard Schema interface');
+  });
+
+  it('throws if commandSchema is not a Standard Schema', () => {
+    expect(() =>
+      defineKind({ kind: 'bad', commandSchema: {} as never, async onInit() {}, async onCommand() {} }),
+    ).toThrow('commandSchema must implement the Standard Schema interface');
+  });
+
+  it('throws if commandSchema is set without onCommand', () => {
+    const commandSchema = { '~standard': { version: 1 as const, vendor: 'test', validate: (value: unknown) => ({ value }) } };
+    expect(() =>
+      defineKind({ kind: 'bad', commandSchema, async onInit() {} }),
+    ).toThrow('commandSchema requires onCommand');
+  });
+
+  it('throws if version is invalid', () => {
+    expect(() =>
+      defineKind({ kind: 'bad', version: '', async onInit() {} }),
+    ).toThrow('version must be a non-empty string or a finite number');
+    expect(() =>
+      defineKind({ kind: 'bad', version: NaN, async onInit() {} }),
+    ).toThrow('version must be a non-empty string or a finite number');
+  });
+
   it('throws if kind is empty string', () => {
     expect(() =>
       defineKind({ kind: '', async onInit() {} }),
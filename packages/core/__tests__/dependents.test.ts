@@ -0,0 +1,144 @@
+import { describe, it, expect } from 'vitest';
+import { defineKind, RFS_INDEX_DIRNAME } from '@radium-fs/core';
+import { createTestStore } from './helpers';
+
+const lib = defineKind<{ name: string }>({
+  kind: 'lib',
+  async onInit({ input, space }) {
+    await space.writeFile('index.js', input.name);
+  },
+});
+
+describe('store.dependents()', () => {
+  it('returns spaces that mount the given space', async () => {
+    const { store } = createTestStore();
+
+    const app = defineKind<{ id: string }>({
+      kind: 'app',
+      async onInit({ space }) {
+        await space.dep('lib', lib, { name: 'shared' });
+        await space.dep('vendor/lib', lib, { name: 'shared' });
+      },
+    });
+
+    const a = await store.ensure(app, { id: 'a' });
+    const b = await store.ensure(app, { id: 'b' });
+
+    const dependents = await store.dependents({ kind: 'lib', input: { name: 'shared' } });
+    expect(dependents.map(d => d.dataId).sort()).toEqual([a.dataId, b.dataId].sort());
+
+    const first = dependents.find(d => d.dataId === a.dataId)!;
+    expect(first.kind).toBe('app');
+    expect(first.origin.input).toEqual({ id: 'a' });
+    expect(first.path).toBe(a.path);
+    expect(first.scope).toBe('shared');
+    expect(first.mountPaths).toEqual(['lib', 'vendor/lib']);
+  });
+
+  it('returns empty array when nothing depends on the space', async () => {
+    const { store } = createTestStore();
+    await store.ensure(lib, { name: 'alone' });
+
+    expect(await store.dependents({ kind: 'lib', input: { name: 'alone' } })).toEqual([]);
+  });
+
+  it('includes local-scope dependents', async () => {
+    const { store } = createTestStore();
+
+    const wrapper = defineKind({
+      kind: 'wrapper',
+      async onInit({ space }) {
+        await space.dep('lib', lib, { name: 'deep' });
+      },
+    });
+
+    const root = defineKind({
+      kind: 'root',
+      async onInit({ space }) {
+        await space.dep('wrapper', wrapper, {}, { scope: 'local' });
+      },
+    });
+
+    await store.ensure(root, {});
+    const dependents = await store.dependents({ kind: 'lib', input: { name: 'deep' } });
+
+    expect(dependents).toHaveLength(1);
+    expect(dependents[0].kind).toBe('wrapper');
+    expect(dependents[0].scope).toBe('local');
+  });
+
+  it('does not index local-scope dependencies', async () => {
+    const { store } = createTestStore();
+
+    const app = defineKind({
+      kind: 'app-local',
+      async onInit({ space }) {
+        await space.dep('lib', lib, { name: 'private' }, { scope: 'local' });
+      },
+    });
+
+    await store.ensure(app, {});
+    expect(await store.dependents({ kind: 'lib', input: { name: 'private' } })).toEqual([]);
+  });
+
+  it('prunes entries of removed dependents', async () => {
+    const { store } = createTestStore();
+
+    const app = defineKind({
+      kind: 'app-rm',
+      async onInit({ space }) {
+        await space.dep('lib', lib, { name: 'x' });
+      },
+    });
+
+    await store.ensure(app, {});
+    expect(await store.dependents({ kind: 'lib', input: { name: 'x' } })).toHaveLength(1);
+
+    await store.remove({ kind: 'app-rm', input: {} });
+    expect(await store.dependents({ kind: 'lib', input: { name: 'x' } })).toEqual([]);
+  });
+
+  it('survives a rebuild of the dependent', async () => {
+    const { store } = createTestStore();
+
+    const app = defineKind({
+      kind: 'app-rebuild',
+      async onInit({ space }) {
+        await space.dep('lib', lib, { name: 'y' });
+      },
+    });
+
+    await store.ensure(app, {});
+    await store.ensure(app, {}, { cache: false });
+
+    expect(await store.dependents({ kind: 'lib', input: { name: 'y' } })).toHaveLength(1);
+  });
+
+  it('rebuilds a missing index from the manifests on disk', async () => {
+    const { store, adapter } = createTestStore();
+
+    const wrapper = defineKind({
+      kind: 'wrapper-backfill',
+      async onInit({ space }) {
+        await space.dep('lib', lib, { name: 'old' });
+      },
+    });
+    const app = defineKind({
+      kind: 'app-backfill',
+      async onInit({ space }) {
+        await space.dep('lib', lib, { name: 'old' });
+        await space.dep('wrapper', wrapper, {}, { scope: 'local' });
+      },
+    });
+
+    const built = await store.ensure(app, {});
+    expect(await store.dependents({ kind: 'lib', input: { name: 'old' } })).toHaveLength(2);
+
+    // A store written before the index existed, or whose index was deleted
+    await adapter.remove(`/test/${RFS_INDEX_DIRNAME}`, { recursive: true });
+
+    const dependents = await store.dependents({ kind: 'lib', input: { name: 'old' } });
+    expect(dependents.map(d => d.scope).sort()).toEqual(['local', 'shared']);
+    expect(dependents.find(d => d.scope === 'shared')!.dataId).toBe(built.dataId);
+  });
+});
@@ -188,3 +188,133 @@ describe('dep() — dependency system', () => {
     expect(childRuntime).toEqual({ base: 'store', extra: 'val' });
   });
 });
+
+describe('space.deps() — parallel dependencies', () => {
+  function deferred() {
+    let resolve!: () => void;
+    const promise = new Promise<void>(r => { resolve = r; });
+    return { promise, resolve };
+  }
+
+  it('mounts every entry and returns paths by mount path', async () => {
+    const { store, adapter } = createTestStore();
+    const lib = defineKind<{ name: string }>({
+      kind: 'lib',
+      async onInit({ input, space }) {
+        await space.writeFile('index.js', input.name);
+      },
+    });
+    const app = defineKind({
+      kind: 'app',
+      async onInit({ space }) {
+        const paths = await space.deps({
+          'vendor/a': [lib, { name: 'a' }],
+          'vendor/b': [lib, { name: 'b' }, { scope: 'local' }],
+        });
+        await space.writeFile('paths.json', JSON.stringify(Object.keys(paths)));
+      },
+    });
+
+    const space = await store.ensure(app, {});
+
+    expect(decode(await adapter.readFile(`${space.path}/vendor/a/index.js`))).toBe('a');
+    expect(decode(await adapter.readFile(`${space.path}/vendor/b/index.js`))).toBe('b');
+    expect(decode(await adapter.readFile(`${space.path}/paths.json`))).toBe('["vendor/a","vendor/b"]');
+    expect(space.manifest.dependencies!.map(d => [d.mountPath, d.scope])).toEqual([
+      ['vendor/a', 'shared'],
+      ['vendor/b', 'local'],
+    ]);
+  });
+
+  it('records dependencies in spec order regardless of completion order', async () => {
+    const { store } = createTestStore();
+    const gates: Record<string, ReturnType<typeof deferred>> = { a: deferred(), b: deferred(), c: deferred() };
+    const finished: string[] = [];
+    const slow = defineKind<{ id: string }>({
+      kind: 'slow',
+      async onInit({ input }) {
+        await gates[input.id].promise;
+        finished.push(input.id);
+      },
+    });
+    const app = defineKind({
+      kind: 'app',
+      async onInit({ space }) {
+        await space.deps({ a: [slow, { id: 'a' }], b: [slow, { id: 'b' }], c: [slow, { id: 'c' }] });
+      },
+    });
+
+    const pending = store.ensure(app, {});
+    await new Promise(r => setTimeout(r, 5));
+    gates.c.resolve();
+    await new Promise(r => setTimeout(r, 5));
+    gates.b.resolve();
+    await new Promise(r => setTimeout(r, 5));
+    gates.a.resolve();
+    const space = await pending;
+
+    expect(finished).toEqual(['c', 'b', 'a']);
+    expect(space.manifest.dependencies!.map(d => d.mountPath)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('limits how many dependencies resolve at once', async () => {
+    const { store } = createTestStore();
+    let active = 0;
+    let peak = 0;
+    const leaf = defineKind<{ id: number }>({
+      kind: 'leaf',
+      async onInit() {
+        active++;
+        peak = Math.max(peak, active);
+        await new Promise(r => setTimeout(r, 2));
+        active--;
+      },
+    });
+    const app = defineKind<{ concurrency: number }>({
+      kind: 'app',
+      async onInit({ input, space }) {
+        const specs: Record<string, readonly [typeof leaf, { id: number }]> = {};
+        for (let id = 0; id < 6; id++) specs[`leaf/${id}`] = [leaf, { id }];
+        await space.deps(specs, { concurrency: input.concurrency });
+      },
+    });
+
+    await store.ensure(app, { concurrency: 2 });
+    expect(peak).toBe(2);
+  });
+
+  it('stops starting entries after a failure and throws the first error', async () => {
+    const { store } = createTestStore();
+    const started: number[] = [];
+    const leaf = defineKind<{ id: number }>({
+      kind: 'leaf',
+      async onInit({ input }) {
+        started.push(input.id);
+        if (input.id === 1) throw new Error('leaf 1 failed');
+      },
+    });
+    const app = defineKind({
+      kind: 'app',
+      async onInit({ space }) {
+        await space.deps({ l0: [leaf, { id: 0 }], l1: [leaf, { id: 1 }], l2: [leaf, { id: 2 }] }, { concurrency: 1 });
+      },
+    });
+
+    await expect(store.ensure(app, {})).rejects.toThrow('leaf 1 failed');
+    expect(started).toEqual([0, 1]);
+    expect((await store.list('leaf')).map(s => s.origin.input.id)).toEqual([0]);
+  });
+
+  it('rejects an invalid concurrency', async () => {
+    const { store } = createTestStore();
+    const leaf = defineKind({ kind: 'leaf', async onInit() {} });
+    const app = defineKind({
+      kind: 'app',
+      async onInit({ space }) {
+        await space.deps({ leaf: [leaf, {}] }, { concurrency: 0 });
+      },
+    });
+
+    await expect(store.ensure(app, {})).rejects.toThrow('concurrency must be a positive integer or Infinity');
+  });
+});
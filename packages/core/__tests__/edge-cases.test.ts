@@ -1,6 +1,7 @@
 import { describe, it, expect } from 'vitest';
-import { defineKind } from '@radium-fs/core';
+import { createStore, defineKind } from '@radium-fs/core';
 import type { RfsLockHandle, RfsLocker, RfsEvent } from '@radium-fs/core';
+import { memoryAdapter } from '@radium-fs/memory';
 import { createTestStore } from './helpers';
 
 describe('edge cases — error handling', () => {
@@ -53,6 +54,53 @@ describe('edge cases — input variations', () => {
     expect(s1.dataId).toBe(s2.dataId);
     expect(s2.dataId).toBe(s3.dataId);
   });
+
+  it('distinct non-JSON inputs produce distinct spaces', async () => {
+    const { store } = createTestStore();
+    const kind = defineKind<{ at?: unknown }>({ kind: 'date-input', async onInit() {} });
+
+    const s1 = await store.ensure(kind, { at: new Date(0) });
+    const s2 = await store.ensure(kind, { at: new Date(1) });
+    const s3 = await store.ensure(kind, { at: {} });
+
+    expect(new Set([s1.dataId, s2.dataId, s3.dataId]).size).toBe(3);
+  });
+
+  it('stores non-JSON inputs in the manifest so their origin resolves again', async () => {
+    const { store } = createTestStore();
+    const kind = defineKind<Record<string, unknown>>({ kind: 'rich-input', async onInit() {} });
+    const input = {
+      n: 10n,
+      at: new Date(0),
+      tags: new Set(['a', 'b']),
+      sizes: new Map([['x', 1]]),
+      bytes: new Uint8Array([1, 2]),
+      floats: new Float64Array([NaN, Infinity, -Infinity, 0.5]),
+      $rfs: { $rfs: 'not a tag' },
+    };
+
+    const space = await store.ensure(kind, input);
+    const [listed] = await store.list('rich-input');
+
+    expect(listed.manifest.origin.input).toEqual(input);
+    expect((await store.find(listed.manifest.origin))!.dataId).toBe(space.dataId);
+  });
+
+  it('hashes functions as null by default', async () => {
+    const { store } = createTestStore();
+    const kind = defineKind<{ fn?: unknown }>({ kind: 'fn-input', async onInit() {} });
+
+    const s1 = await store.ensure(kind, { fn: () => 1 });
+    const s2 = await store.ensure(kind, { fn: () => 2 });
+    expect(s2.dataId).toBe(s1.dataId);
+  });
+
+  it('rejects inputs that cannot be hashed with strictInputs', async () => {
+    const store = createStore({ root: '/test', adapter: memoryAdapter(), strictInputs: true });
+    const kind = defineKind<{ fn?: unknown }>({ kind: 'fn-input', async onInit() {} });
+
+    await expect(store.ensure(kind, { fn: () => 1 })).rejects.toThrow('cannot serialize function at $.fn');
+  });
 });
 
 describe('edge cases — locker integration', () => {
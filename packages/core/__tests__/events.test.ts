@@ -224,3 +224,147 @@ describe('event system — space.on() / space.onCustom()', () => {
     expect(payloads).toEqual([{ echo: 'hello' }]);
   });
 });
+
+describe('event system — build tree correlation', () => {
+  const leaf = defineKind<{ name: string }>({
+    kind: 'tree-leaf',
+    async onInit({ input, space }) {
+      await space.writeFile('name.txt', input.name);
+    },
+  });
+  const mid = defineKind({
+    kind: 'tree-mid',
+    async onInit({ space }) {
+      await space.dep('leaf', leaf, { name: 'a' });
+    },
+  });
+  const root = defineKind({
+    kind: 'tree-root',
+    async onInit({ space }) {
+      await space.dep('mid', mid, {});
+      await space.dep('leaf', leaf, { name: 'b' }, { scope: 'local' });
+    },
+  });
+
+  it('store-level init events have rootDataId = dataId and no parentDataId', async () => {
+    const { store } = createTestStore();
+    const events: RfsEvent[] = [];
+    store.on((e) => events.push(e));
+
+    const space = await store.ensure(leaf, { name: 'x' });
+    await store.ensure(leaf, { name: 'x' });
+
+    expect(events.map(e => e.type)).toEqual(['init:start', 'init:done', 'init:cached']);
+    for (const e of events) {
+      expect(e).toMatchObject({ dataId: space.dataId, rootDataId: space.dataId });
+      expect(e).not.toHaveProperty('parentDataId');
+    }
+  });
+
+  it('init and dep:mount events reconstruct the dependency tree', async () => {
+    const { store } = createTestStore();
+    const events: RfsEvent[] = [];
+    store.on((e) => events.push(e));
+
+    const space = await store.ensure(root, {});
+
+    const starts = events.filter(e => e.type === 'init:start');
+    const parents = new Map(starts.map(e => [e.dataId, e.parentDataId]));
+    const kinds = new Map(starts.map(e => [e.dataId, e.kind]));
+    expect(starts.every(e => e.rootDataId === space.dataId)).toBe(true);
+
+    const edges = [...parents]
+      .filter(([, parent]) => parent)
+      .map(([child, parent]) => `${kinds.get(parent!)} -> ${kinds.get(child)}`)
+      .sort();
+    expect(edges).toEqual([
+      'tree-mid -> tree-leaf',
+      'tree-root -> tree-leaf',
+      'tree-root -> tree-mid',
+    ]);
+
+    const mounts = events.filter(e => e.type === 'dep:mount');
+    expect(mounts.map(e => `${e.kind}:${e.mountPath} <- ${e.depKind}`)).toEqual([
+      'tree-mid:leaf <- tree-leaf',
+      'tree-root:mid <- tree-mid',
+      'tree-root:leaf <- tree-leaf',
+    ]);
+    for (const e of mounts) {
+      expect(e.rootDataId).toBe(space.dataId);
+      expect(parents.get(e.depDataId)).toBe(e.dataId);
+    }
+    expect(mounts[2]).toMatchObject({ scope: 'local' });
+    const midSpace = await store.ensure(mid, {});
+    expect(mounts[1].target).toBe(midSpace.exports['.']);
+  });
+
+  it('cached dependencies still report their parent', async () => {
+    const { store } = createTestStore();
+    const child = await store.ensure(leaf, { name: 'a' });
+
+    const events: RfsEvent[] = [];
+    store.on((e) => events.push(e));
+    const space = await store.ensure(mid, {});
+
+    const cached = events.find(e => e.type === 'init:cached');
+    expect(cached).toMatchObject({
+      dataId: child.dataId,
+      parentDataId: space.dataId,
+      rootDataId: space.dataId,
+    });
+    expect(events.filter(e => e.type === 'dep:mount')).toHaveLength(1);
+  });
+});
+
+describe('event system — store.onCustom()', () => {
+  type Progress = { step: string };
+
+  const job = defineKind<{ id: number }, { step: string }, Record<string, unknown>, Progress>({
+    kind: 'typed-job',
+    async onInit({ emit }) {
+      emit({ step: 'init' });
+    },
+    async onCommand({ command, emit }) {
+      emit({ step: command.step });
+    },
+  });
+  const other = defineKind({
+    kind: 'typed-other',
+    async onInit({ emit }) { emit('ignored'); },
+  });
+
+  it('receives custom events of every space of the kind', async () => {
+    const { store } = createTestStore();
+    const seen: string[] = [];
+    store.onCustom(job, (e) => seen.push(`${e.dataId}:${e.payload.step}`));
+
+    const a = await store.ensure(job, { id: 1 });
+    const b = await store.ensure(job, { id: 2 });
+    await store.ensure(other, {});
+    await b.send({ step: 'run' });
+
+    expect(seen).toEqual([`${a.dataId}:init`, `${b.dataId}:init`, `${b.dataId}:run`]);
+  });
+
+  it('unsubscribe stops delivery', async () => {
+    const { store } = createTestStore();
+    const steps: string[] = [];
+    const unsub = store.onCustom(job, (e) => steps.push(e.payload.step));
+
+    const space = await store.ensure(job, { id: 1 });
+    unsub();
+    await space.send({ step: 'late' });
+
+    expect(steps).toEqual(['init']);
+  });
+
+  it('space.onCustom receives the kind payload type', async () => {
+    const { store } = createTestStore();
+    const space = await store.ensure(job, { id: 1 });
+    const steps: string[] = [];
+    space.onCustom((payload) => steps.push(payload.step));
+
+    await space.send({ step: 'typed' });
+    expect(steps).toEqual(['typed']);
+  });
+});
@@ -0,0 +1,168 @@
+import { describe, it, expect } from 'vitest';
+import { defineKind } from '@radium-fs/core';
+import { createTestStore } from './helpers';
+
+const lib = defineKind<{ name: string }>({
+  kind: 'lib',
+  async onInit({ input, space }) {
+    await space.writeFile('index.js', input.name);
+  },
+});
+
+const app = defineKind<{ name: string }>({
+  kind: 'app',
+  async onInit({ input, space }) {
+    await space.dep('lib', lib, { name: input.name });
+  },
+});
+
+describe('store.gc()', () => {
+  it('keeps roots and their transitive dependencies', async () => {
+    const { store } = createTestStore();
+    await store.ensure(app, { name: 'kept' });
+    const orphan = await store.ensure(lib, { name: 'orphan' });
+
+    const result = await store.gc({ roots: [{ kind: 'app', input: { name: 'kept' } }] });
+
+    expect(result.unreachable).toEqual([orphan.dataId]);
+    expect(result.dryRun).toBe(false);
+    expect(await store.has({ kind: 'app', input: { name: 'kept' } })).toBe(true);
+    expect(await store.has({ kind: 'lib', input: { name: 'kept' } })).toBe(true);
+    expect(await store.has({ kind: 'lib', input: { name: 'orphan' } })).toBe(false);
+  });
+
+  it('keeps dependencies whose input holds non-JSON values', async () => {
+    const { store } = createTestStore();
+    const tagged = defineKind<{ ids: Set<number> }>({ kind: 'tagged-lib', async onInit() {} });
+    const root = defineKind({
+      kind: 'tagged-app',
+      async onInit({ space }) {
+        await space.dep('lib', tagged, { ids: new Set([1, 2]) });
+      },
+    });
+    const space = await store.ensure(root, {});
+
+    const result = await store.gc({ roots: [space.origin] });
+
+    expect(result.unreachable).toEqual([]);
+    expect(await store.has({ kind: 'tagged-lib', input: { ids: new Set([1, 2]) } })).toBe(true);
+    expect(await store.dependents({ kind: 'tagged-lib', input: { ids: new Set([1, 2]) } })).toHaveLength(1);
+  });
+
+  it('dryRun reports without removing', async () => {
+    const { store } = createTestStore();
+    const orphan = await store.ensure(lib, { name: 'orphan' });
+
+    const result = await store.gc({ roots: [], dryRun: true });
+
+    expect(result.unreachable).toEqual([orphan.dataId]);
+    expect(result.dryRun).toBe(true);
+    expect(await store.has({ kind: 'lib', input: { name: 'orphan' } })).toBe(true);
+  });
+
+  it('follows shared dependencies of local-scope children', async () => {
+    const { store } = createTestStore();
+
+    const wrapper = defineKind({
+      kind: 'wrapper',
+      async onInit({ space }) {
+        await space.dep('lib', lib, { name: 'via-local' });
+      },
+    });
+
+    const root = defineKind({
+      kind: 'root',
+      async onInit({ space }) {
+        await space.dep('wrapper', wrapper, {}, { scope: 'local' });
+      },
+    });
+
+    await store.ensure(root, {});
+    const result = await store.gc({ roots: [{ kind: 'root', input: {} }] });
+
+    expect(result.unreachable).toEqual([]);
+    expect(await store.has({ kind: 'lib', input: { name: 'via-local' } })).toBe(true);
+  });
+
+  it('removes orphaned temp directories', async () => {
+    const { store, adapter } = createTestStore();
+    const space = await store.ensure(lib, { name: 'a' });
+
+    const shardDir = space.path.split('/').slice(0, -2).join('/');
+    const tempDir = `${shardDir}/.tmp-${space.dataId}-crashed`;
+    await adapter.mkdir(`${tempDir}/space`);
+
+    const result = await store.gc({ roots: [space.origin], tempGraceMs: 0 });
+
+    expect(result.orphanedTemps).toEqual([tempDir]);
+    expect(await adapter.exists(tempDir)).toBe(false);
+    expect(await store.has(space.origin)).toBe(true);
+  });
+
+  it('keeps recently modified temp directories, which may belong to another process', async () => {
+    const { store, adapter } = createTestStore();
+    const space = await store.ensure(lib, { name: 'a' });
+
+    const shardDir = space.path.split('/').slice(0, -2).join('/');
+    const tempDir = `${shardDir}/.tmp-${space.dataId}-elsewhere`;
+    await adapter.mkdir(`${tempDir}/space`);
+
+    const result = await store.gc({ roots: [space.origin] });
+
+    expect(result.orphanedTemps).toEqual([]);
+    expect(await adapter.exists(tempDir)).toBe(true);
+  });
+
+  it('removes orphaned temp directories inside local-deps of kept spaces', async () => {
+    const { store, adapter } = createTestStore();
+    const owner = defineKind({
+      kind: 'owner',
+      async onInit({ space }) {
+        await space.dep('lib', lib, { name: 'private' }, { scope: 'local' });
+      },
+    });
+    const space = await store.ensure(owner, {});
+
+    const dataDir = space.path.slice(0, -'/space'.length);
+    const tempDir = `${dataDir}/.radium-fs-local-deps/lib/ab/.tmp-ab12-crashed`;
+    await adapter.mkdir(`${tempDir}/space`);
+
+    const result = await store.gc({ roots: [space.origin], tempGraceMs: 0 });
+
+    expect(result.orphanedTemps).toEqual([tempDir]);
+    expect(await adapter.exists(tempDir)).toBe(false);
+    expect(await adapter.exists(`${space.path}/lib/index.js`)).toBe(true);
+  });
+
+  it('reports unreadable manifests and keeps every space', async () => {
+    const { store, adapter } = createTestStore();
+    const kept = await store.ensure(app, { name: 'kept' });
+    const orphan = await store.ensure(lib, { name: 'orphan' });
+
+    const dataDir = kept.path.slice(0, -'/space'.length);
+    await adapter.writeFile(`${dataDir}/.radium-fs-manifest.json`, '{ corrupt');
+
+    const result = await store.gc({ roots: [kept.origin] });
+
+    expect(result.unreadable).toEqual([dataDir]);
+    expect(result.unreachable).toContain(orphan.dataId);
+    expect(await store.has(orphan.origin)).toBe(true);
+    expect(await store.has({ kind: 'lib', input: { name: 'kept' } })).toBe(true);
+  });
+
+  it('does not collect temp directories of in-flight builds', async () => {
+    const { store, adapter } = createTestStore();
+    let gcResult: Awaited<ReturnType<typeof store.gc>> | null = null;
+
+    const slow = defineKind({
+      kind: 'slow',
+      async onInit() {
+        gcResult = await store.gc({ roots: [] });
+      },
+    });
+
+    const space = await store.ensure(slow, {});
+    expect(gcResult!.orphanedTemps).toEqual([]);
+    expect(await adapter.exists(space.path)).toBe(true);
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import { defineKind, RfsValidationError } from '@radium-fs/core';
+import type { RfsEvent, RfsSchema } from '@radium-fs/core';
+import { createTestStore } from './helpers';
+
+type PageInput = { n: number; lang: string };
+
+// Hand-written Standard Schema: coerces n to a number, defaults lang to 'en'
+const pageSchema: RfsSchema<PageInput> = {
+  '~standard': {
+    version: 1,
+    vendor: 'test',
+    validate(value) {
+      const raw = (value ?? {}) as { n?: unknown; lang?: unknown };
+      const n = typeof raw.n === 'string' && raw.n.trim() !== '' ? Number(raw.n) : raw.n;
+      if (typeof n !== 'number' || Number.isNaN(n)) {
+        return { issues: [{ message: 'Expected a number', path: ['n'] }] };
+      }
+      if (raw.lang !== undefined && typeof raw.lang !== 'string') {
+        return { issues: [{ message: 'Expected a string', path: ['lang'] }] };
+      }
+      return { value: { n, lang: raw.lang ?? 'en' } };
+    },
+  },
+};
+
+function pageKind(calls: PageInput[] = []) {
+  return defineKind<PageInput>({
+    kind: 'page',
+    inputSchema: pageSchema,
+    async onInit({ input, space }) {
+      calls.push(input);
+      await space.writeFile('page.txt', `${input.lang}:${input.n}`);
+    },
+  });
+}
+
+describe('inputSchema', () => {
+  it('passes the normalized input to onInit and the origin', async () => {
+    const { store } = createTestStore();
+    const calls: PageInput[] = [];
+
+    const space = await store.ensure(pageKind(calls), { n: '1' } as unknown as PageInput);
+
+    expect(calls).toEqual([{ n: 1, lang: 'en' }]);
+    expect(space.origin.input).toEqual({ n: 1, lang: 'en' });
+  });
+
+  it('maps equivalent inputs to the same space', async () => {
+    const { store } = createTestStore();
+    const calls: PageInput[] = [];
+    const page = pageKind(calls);
+
+    const a = await store.ensure(page, { n: 1 } as PageInput);
+    const b = await store.ensure(page, { n: '1' } as unknown as PageInput);
+    const c = await store.ensure(page, { n: 1, lang: 'en' });
+
+    expect(b.dataId).toBe(a.dataId);
+    expect(c.dataId).toBe(a.dataId);
+    expect(calls).toHaveLength(1);
+  });
+
+  it('fails fast with init:error and RfsValidationError', async () => {
+    const { store } = createTestStore();
+    const calls: PageInput[] = [];
+    const events: RfsEvent[] = [];
+    store.on((e) => events.push(e));
+    const errors: unknown[] = [];
+
+    const error = await store
+      .ensure(pageKind(calls), { n: 'x' } as unknown as PageInput, { onError: ({ error }) => errors.push(error) })
+      .catch((err: unknown) => err);
+
+    expect(error).toBeInstanceOf(RfsValidationError);
+    expect((error as Error).message).toBe('Invalid input for kind "page": n: Expected a number');
+    expect(calls).toEqual([]);
+    expect(errors).toEqual([error]);
+    expect(events.map(e => e.type)).toEqual(['init:error']);
+    expect(events[0]).toMatchObject({ kind: 'page', input: { n: 'x' }, error });
+  });
+
+  it('reports the validation error for an input that cannot be hashed', async () => {
+    const { store } = createTestStore();
+    const events: RfsEvent[] = [];
+    store.on((e) => events.push(e));
+    const input: Record<string, unknown> = { n: 'x' };
+    input.self = input;
+
+    const error = await store.ensure(pageKind(), input as unknown as PageInput).catch((err: unknown) => err);
+
+    expect(error).toBeInstanceOf(RfsValidationError);
+    expect(events.map(e => e.type)).toEqual(['init:error']);
+    expect(events[0]).toMatchObject({ kind: 'page', dataId: '', error });
+  });
+
+  it('validates dependency inputs', async () => {
+    const { store } = createTestStore();
+    const page = pageKind();
+
+    const book = defineKind<{ pages: string[] }>({
+      kind: 'book',
+      async onInit({ input, space }) {
+        for (const [i, n] of input.pages.entries()) {
+          await space.dep(`pages/${i}`, page, { n } as unknown as PageInput);
+        }
+      },
+    });
+
+    const space = await store.ensure(book, { pages: ['1'] });
+    expect(space.manifest.dependencies![0].origin.input).toEqual({ n: 1, lang: 'en' });
+
+    await expect(store.ensure(book, { pages: ['one'] })).rejects.toThrow(RfsValidationError);
+  });
+});
@@ -0,0 +1,188 @@
+import { describe, it, expect } from 'vitest';
+import { createStore, defineKind } from '@radium-fs/core';
+import { memoryAdapter } from '@radium-fs/memory';
+import type { RfsEvent } from '@radium-fs/core';
+import { createTestStore } from './helpers';
+
+function createKinds() {
+  const calls: string[] = [];
+
+  const lib = defineKind<{ name: string }>({
+    kind: 'lib',
+    async onInit({ input, space }) {
+      calls.push('lib');
+      await space.writeFile('index.js', input.name);
+    },
+  });
+
+  const mid = defineKind({
+    kind: 'mid',
+    async onInit({ space }) {
+      calls.push('mid');
+      await space.dep('lib', lib, { name: 'base' });
+    },
+  });
+
+  const top = defineKind({
+    kind: 'top',
+    async onInit({ space }) {
+      calls.push('top');
+      await space.dep('mid', mid, {});
+    },
+  });
+
+  return { calls, lib, mid, top };
+}
+
+describe('store.invalidate()', () => {
+  it('marks the space so the next ensure rebuilds it', async () => {
+    const { store } = createTestStore();
+    const { calls, lib } = createKinds();
+
+    const first = await store.ensure(lib, { name: 'a' });
+    const result = await store.invalidate(first.origin);
+
+    expect(result).toEqual({ invalidated: [first.dataId], rebuilt: [] });
+    expect((await store.find(first.origin))!.manifest.invalidatedAt).toBeTypeOf('string');
+
+    const second = await store.ensure(lib, { name: 'a' });
+    expect(calls).toEqual(['lib', 'lib']);
+    expect(second.manifest.invalidatedAt).toBeUndefined();
+  });
+
+  it('without cascade leaves dependents untouched', async () => {
+    const { store } = createTestStore();
+    const { top } = createKinds();
+
+    await store.ensure(top, {});
+    const result = await store.invalidate({ kind: 'lib', input: { name: 'base' } });
+
+    expect(result.invalidated).toHaveLength(1);
+    expect((await store.find({ kind: 'top', input: {} }))!.manifest.invalidatedAt).toBeUndefined();
+  });
+
+  it('cascade marks every transitive dependent and emits events', async () => {
+    const { store } = createTestStore();
+    const { top } = createKinds();
+
+    const topSpace = await store.ensure(top, {});
+    const events: RfsEvent[] = [];
+    store.on((e) => events.push(e));
+
+    const result = await store.invalidate({ kind: 'lib', input: { name: 'base' } }, { cascade: true });
+
+    expect(result.invalidated).toHaveLength(3);
+    expect(result.invalidated[2]).toBe(topSpace.dataId);
+
+    const invalidatedEvents = events.filter(e => e.type === 'space:invalidated');
+    expect(invalidatedEvents.map(e => e.kind)).toEqual(['lib', 'mid', 'top']);
+    expect(invalidatedEvents.every(e => e.type === 'space:invalidated' && e.cause === result.invalidated[0])).toBe(true);
+  });
+
+  it('cascade reaches the owner of a local-scope dependent', async () => {
+    const { store } = createTestStore();
+    const { mid } = createKinds();
+
+    const owner = defineKind({
+      kind: 'owner',
+      async onInit({ space }) {
+        await space.dep('mid', mid, {}, { scope: 'local' });
+      },
+    });
+
+    const ownerSpace = await store.ensure(owner, {});
+    const result = await store.invalidate({ kind: 'lib', input: { name: 'base' } }, { cascade: true });
+
+    expect(result.invalidated).toContain(ownerSpace.dataId);
+  });
+
+  it('rebuild: true rebuilds the whole cascade immediately', async () => {
+    const { store } = createTestStore();
+    const { calls, top } = createKinds();
+
+    await store.ensure(top, {});
+    calls.length = 0;
+
+    const result = await store.invalidate(
+      { kind: 'lib', input: { name: 'base' } },
+      { cascade: true, rebuild: true },
+    );
+
+    expect(calls).toEqual(['lib', 'mid', 'top']);
+    expect(result.rebuilt).toEqual(result.invalidated);
+
+    const found = await store.find({ kind: 'top', input: {} });
+    expect(found!.manifest.invalidatedAt).toBeUndefined();
+  });
+
+  it('rebuilds in dependency order when a dependent also mounts the cause directly', async () => {
+    const { store } = createTestStore();
+    const { calls, lib, top } = createKinds();
+    const app = defineKind({
+      kind: 'app',
+      async onInit({ space }) {
+        calls.push('app');
+        await space.dep('lib', lib, { name: 'base' });
+        await space.dep('top', top, {});
+      },
+    });
+
+    const appSpace = await store.ensure(app, {});
+    const topSpace = await store.find({ kind: 'top', input: {} });
+    calls.length = 0;
+
+    // Breadth-first, app (one hop from lib) would come before top (two hops)
+    const result = await store.invalidate(
+      { kind: 'lib', input: { name: 'base' } },
+      { cascade: true, rebuild: true },
+    );
+
+    expect(calls).toEqual(['lib', 'mid', 'top', 'app']);
+    expect(result.rebuilt.slice(2)).toEqual([topSpace!.dataId, appSpace.dataId]);
+  });
+
+  it('waits for a build of the space in flight before marking it', async () => {
+    const { store } = createTestStore();
+    let finish!: () => void;
+    const gate = new Promise<void>(resolve => { finish = resolve; });
+    const slow = defineKind({
+      kind: 'slow',
+      async onInit({ space }) {
+        await gate;
+        await space.writeFile('a.txt', 'a');
+      },
+    });
+
+    const building = store.ensure(slow, {});
+    await new Promise(resolve => setTimeout(resolve, 10));
+    const invalidating = store.invalidate({ kind: 'slow', input: {} });
+    finish();
+
+    const space = await building;
+    expect((await invalidating).invalidated).toEqual([space.dataId]);
+    expect((await store.find(space.origin))!.manifest.invalidatedAt).toBeDefined();
+  });
+
+  it('rebuild skips kinds unknown to the store', async () => {
+    const adapter = memoryAdapter();
+    const { calls, lib } = createKinds();
+
+    const writer = createStore({ root: '/shared', adapter });
+    await writer.ensure(lib, { name: 'x' });
+
+    const reader = createStore({ root: '/shared', adapter });
+    const result = await reader.invalidate({ kind: 'lib', input: { name: 'x' } }, { rebuild: true });
+    expect(result.rebuilt).toEqual([]);
+
+    const withKinds = createStore({ root: '/shared', adapter, kinds: [lib] });
+    const again = await withKinds.invalidate({ kind: 'lib', input: { name: 'x' } }, { rebuild: true });
+    expect(again.rebuilt).toHaveLength(1);
+    expect(calls).toEqual(['lib', 'lib']);
+  });
+
+  it('returns empty result for a missing space', async () => {
+    const { store } = createTestStore();
+    const result = await store.invalidate({ kind: 'lib', input: { name: 'missing' } }, { cascade: true });
+    expect(result).toEqual({ invalidated: [], rebuilt: [] });
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import { createStore, defineKind } from '@radium-fs/core';
+import type { RfsEvent, RfsStoreOptions } from '@radium-fs/core';
+import { memoryAdapter } from '@radium-fs/memory';
+import { createTestStore } from './helpers';
+
+function createLoggingStore(buildLog: RfsStoreOptions['buildLog']) {
+  const store = createStore({ root: '/test', adapter: memoryAdapter(), buildLog });
+  const events: RfsEvent[] = [];
+  store.on((e) => events.push(e));
+  return { store, events };
+}
+
+const fetcher = defineKind<{ url: string }, { fail?: boolean }>({
+  kind: 'log-fetcher',
+  async onInit({ input, space, log }) {
+    log.debug('resolving', { url: input.url });
+    await space.writeFile('body.txt', 'ok');
+    log.info('fetched', { bytes: 2 });
+  },
+  async onCommand({ command, log }) {
+    log.warn('refreshing');
+    if (command.fail) {
+      log.error('refresh failed');
+      throw new Error('offline');
+    }
+  },
+});
+
+describe('ctx.log', () => {
+  it('emits a log event per call with level, message, data, and phase', async () => {
+    const { store } = createTestStore();
+    const events: RfsEvent[] = [];
+    store.on((e) => events.push(e));
+
+    const space = await store.ensure(fetcher, { url: 'https://example.com' });
+
+    const logs = events.filter(e => e.type === 'log');
+    expect(logs.map(({ timestamp: _, ...e }) => e)).toEqual([
+      {
+        type: 'log',
+        kind: 'log-fetcher',
+        dataId: space.dataId,
+        level: 'debug',
+        message: 'resolving',
+        data: { url: 'https://example.com' },
+        phase: 'init',
+      },
+      {
+        type: 'log',
+        kind: 'log-fetcher',
+        dataId: space.dataId,
+        level: 'info',
+        message: 'fetched',
+        data: { bytes: 2 },
+        phase: 'init',
+      },
+    ]);
+    expect(events.map(e => e.type)).toEqual(['init:start', 'log', 'log', 'init:done']);
+    expect(Number.isNaN(Date.parse(logs[0].timestamp))).toBe(false);
+  });
+
+  it('keeps no build log by default', async () => {
+    const { store } = createTestStore();
+    const space = await store.ensure(fetcher, { url: 'a' });
+
+    expect(await store.buildLog(space.origin)).toEqual([]);
+    expect(await store.buildLog({ kind: 'log-fetcher', input: { url: 'never built' } })).toBeNull();
+  });
+
+  it('persists build and command entries with buildLog: true', async () => {
+    const { store } = createLoggingStore(true);
+    const space = await store.ensure(fetcher, { url: 'a' });
+    await space.send({});
+    await expect(space.send({ fail: true })).rejects.toThrow('offline');
+
+    const entries = await store.buildLog(space.origin);
+    expect(entries!.map(e => `${e.phase}:${e.level}:${e.message}`)).toEqual([
+      'init:debug:resolving',
+      'init:info:fetched',
+      'command:warn:refreshing',
+      'command:warn:refreshing',
+      'command:error:refresh failed',
+    ]);
+    expect(entries![1].data).toEqual({ bytes: 2 });
+  });
+
+  it('keeps only entries at or above the configured level', async () => {
+    const { store, events } = createLoggingStore({ level: 'warn' });
+    const space = await store.ensure(fetcher, { url: 'a' });
+    await space.send({});
+
+    expect(events.filter(e => e.type === 'log')).toHaveLength(3);
+    const entries = await store.buildLog(space.origin);
+    expect(entries!.map(e => e.message)).toEqual(['refreshing']);
+  });
+
+  it('does not persist entries of a failed build', async () => {
+    const { store, events } = createLoggingStore(true);
+    const broken = defineKind({
+      kind: 'log-broken',
+      async onInit({ log }) {
+        log.error('about to fail');
+        throw new Error('boom');
+      },
+    });
+
+    await expect(store.ensure(broken, {})).rejects.toThrow('boom');
+    const [logEvent] = events.filter(e => e.type === 'log');
+    expect(logEvent).toMatchObject({ level: 'error', message: 'about to fail' });
+    expect(await store.buildLog({ kind: 'log-broken', input: {} })).toBeNull();
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { defineKind, memoryLocker } from '@radium-fs/core';
+import type { RfsEvent } from '@radium-fs/core';
+import { createTestStore } from './helpers';
+
+describe('memoryLocker', () => {
+  it('grants the same key one holder at a time in FIFO order', async () => {
+    const locker = memoryLocker();
+    const log: string[] = [];
+
+    const first = await locker.acquire('k');
+    const second = locker.acquire('k').then((h) => { log.push('second'); return h; });
+    const third = locker.acquire('k').then((h) => { log.push('third'); return h; });
+
+    await Promise.resolve();
+    expect(log).toEqual([]);
+
+    await first.release();
+    await (await second).release();
+    await (await third).release();
+    expect(log).toEqual(['second', 'third']);
+  });
+
+  it('does not block different keys', async () => {
+    const locker = memoryLocker();
+    await locker.acquire('a');
+    const b = await locker.acquire('b');
+    expect(b).toBeDefined();
+  });
+
+  it('aborted waiters leave the queue without blocking others', async () => {
+    const locker = memoryLocker();
+    const controller = new AbortController();
+
+    const first = await locker.acquire('k');
+    const aborted = locker.acquire('k', controller.signal);
+    const third = locker.acquire('k');
+
+    controller.abort();
+    await expect(aborted).rejects.toThrow('aborted');
+
+    await first.release();
+    await expect(third).resolves.toBeDefined();
+  });
+
+  it('rejects immediately when the signal is already aborted', async () => {
+    const locker = memoryLocker();
+    await locker.acquire('k');
+
+    const controller = new AbortController();
+    controller.abort();
+    await expect(locker.acquire('k', controller.signal)).rejects.toThrow('aborted');
+  });
+
+  it('release is idempotent', async () => {
+    const locker = memoryLocker();
+    const handle = await locker.acquire('k');
+    await handle.release();
+    await handle.release();
+    await expect(locker.acquire('k')).resolves.toBeDefined();
+  });
+});
+
+describe('createStore — default locker', () => {
+  it('concurrent ensure calls for the same space build once', async () => {
+    const { store } = createTestStore();
+    const events: RfsEvent[] = [];
+    store.on((e) => events.push(e));
+    let calls = 0;
+
+    const kind = defineKind({
+      kind: 'single-flight',
+      async onInit({ space }) {
+        calls++;
+        await new Promise((r) => setTimeout(r, 5));
+        await space.writeFile('a.txt', 'a');
+      },
+    });
+
+    const [a, b] = await Promise.all([store.ensure(kind, {}), store.ensure(kind, {})]);
+
+    expect(calls).toBe(1);
+    expect(a.dataId).toBe(b.dataId);
+    expect(events.map(e => e.type)).toEqual(['init:start', 'init:done', 'init:cached']);
+  });
+});
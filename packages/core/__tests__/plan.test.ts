@@ -0,0 +1,161 @@
+import { describe, it, expect } from 'vitest';
+import { defineKind, RfsCycleError } from '@radium-fs/core';
+import type { RfsEvent, RfsKind } from '@radium-fs/core';
+import { createTestStore, decode } from './helpers';
+
+const built: string[] = [];
+
+const lib = defineKind<{ name: string }>({
+  kind: 'lib',
+  async onInit({ input, space }) {
+    built.push(`lib:${input.name}`);
+    await space.writeFile('index.js', input.name);
+  },
+});
+
+const scratch = defineKind<{}>({
+  kind: 'scratch',
+  async onInit() {
+    built.push('scratch');
+  },
+});
+
+const app = defineKind<{ env: string }>({
+  kind: 'app',
+  dependencies: (input) => ({
+    'vendor/lib': [lib, { name: `lib-${input.env}` }],
+    'tmp': [scratch, {}, { scope: 'local' }],
+  }),
+  async onInit({ input, space }) {
+    built.push(`app:${input.env}`);
+    const libSource = await space.readFile('vendor/lib/index.js');
+    await space.dep('extra', lib, { name: 'extra' });
+    await space.writeFile('main.js', `import '${libSource}'`);
+  },
+});
+
+describe('kind dependencies', () => {
+  it('mounts static dependencies before onInit and records them first', async () => {
+    const { store, adapter } = createTestStore();
+    const space = await store.ensure(app, { env: 'prod' });
+
+    expect(decode(await adapter.readFile(`${space.path}/main.js`))).toBe(`import 'lib-prod'`);
+    expect(space.manifest.dependencies!.map(d => [d.mountPath, d.scope])).toEqual([
+      ['vendor/lib', 'shared'],
+      ['tmp', 'local'],
+      ['extra', 'shared'],
+    ]);
+  });
+
+  it('are mounted again when the space is replayed', async () => {
+    const { store } = createTestStore();
+    const space = await store.ensure(app, { env: 'prod' });
+
+    expect((await store.replay(space.origin))!.ok).toBe(true);
+  });
+});
+
+describe('store.plan()', () => {
+  it('plans an unbuilt DAG without running onInit or emitting events', async () => {
+    const { store } = createTestStore();
+    const events: RfsEvent[] = [];
+    store.on((e) => events.push(e));
+    built.length = 0;
+
+    const plan = await store.plan(app, { env: 'prod' });
+
+    expect(built).toEqual([]);
+    expect(events).toEqual([]);
+    expect(await store.list()).toEqual([]);
+    expect(plan).toMatchObject({ kind: 'app', input: { env: 'prod' }, status: 'missing' });
+    expect(plan.dependencies).toEqual([
+      expect.objectContaining({ kind: 'lib', input: { name: 'lib-prod' }, status: 'missing', mountPath: 'vendor/lib', scope: 'shared' }),
+      expect.objectContaining({ kind: 'scratch', status: 'missing', mountPath: 'tmp', scope: 'local' }),
+    ]);
+  });
+
+  it('reports the same dataIds ensure() produces', async () => {
+    const { store } = createTestStore();
+    const plan = await store.plan(app, { env: 'prod' });
+    const space = await store.ensure(app, { env: 'prod' });
+
+    expect(plan.dataId).toBe(space.dataId);
+    const libDep = space.manifest.dependencies!.find(d => d.mountPath === 'vendor/lib')!;
+    expect((await store.find(libDep.origin))!.dataId).toBe(plan.dependencies![0].dataId);
+  });
+
+  it('reports cached spaces without planning their dependencies', async () => {
+    const { store } = createTestStore();
+    await store.ensure(app, { env: 'prod' });
+
+    const plan = await store.plan(app, { env: 'prod' });
+
+    expect(plan.status).toBe('cached');
+    expect(plan.dependencies).toBeUndefined();
+  });
+
+  it('reports shared dependencies that are already cached', async () => {
+    const { store } = createTestStore();
+    await store.ensure(lib, { name: 'lib-dev' });
+
+    const plan = await store.plan(app, { env: 'dev' });
+
+    expect(plan.status).toBe('missing');
+    expect(plan.dependencies!.map(d => [d.kind, d.status])).toEqual([
+      ['lib', 'cached'],
+      ['scratch', 'missing'],
+    ]);
+  });
+
+  it('reports invalidated spaces as rebuilt', async () => {
+    const { store } = createTestStore();
+    const space = await store.ensure(app, { env: 'prod' });
+    await store.invalidate(space.origin);
+
+    const plan = await store.plan(app, { env: 'prod' });
+
+    expect(plan.status).toBe('invalidated');
+    expect(plan.dependencies!.map(d => d.status)).toEqual(['cached', 'missing']);
+  });
+
+  it('lists no dependencies for kinds without static dependencies', async () => {
+    const { store } = createTestStore();
+    const plan = await store.plan(lib, { name: 'x' });
+
+    expect(plan.status).toBe('missing');
+    expect(plan.dependencies).toBeUndefined();
+  });
+
+  it('applies the input schema', async () => {
+    const { store } = createTestStore();
+    const trimmed = defineKind<{ name: string }>({
+      kind: 'trimmed',
+      inputSchema: {
+        '~standard': {
+          version: 1,
+          vendor: 'test',
+          validate: (value) => ({ value: { name: String((value as { name: unknown }).name).trim() } }),
+        },
+      },
+      async onInit() {},
+    });
+
+    const plan = await store.plan(trimmed, { name: '  a ' });
+    const space = await store.ensure(trimmed, { name: 'a' });
+
+    expect(plan.input).toEqual({ name: 'a' });
+    expect(plan.dataId).toBe(space.dataId);
+  });
+
+  it('rejects cyclic static dependencies', async () => {
+    const { store } = createTestStore();
+    const loop: RfsKind<{}> = defineKind<{}>({
+      kind: 'loop',
+      dependencies: () => ({ self: [loop, {}] }),
+      async onInit() {},
+    });
+
+    await expect(store.plan(loop, {})).rejects.toThrow(RfsCycleError);
+    await expect(store.ensure(loop, {})).rejects.toThrow(RfsCycleError);
+  });
+});
@@ -0,0 +1,213 @@
+import { describe, it, expect } from 'vitest';
+import { createStore, defineKind } from '@radium-fs/core';
+import type { RfsEvent } from '@radium-fs/core';
+import { memoryAdapter } from '@radium-fs/memory';
+import { createTestStore } from './helpers';
+
+const lib = defineKind<{ name: string }>({
+  kind: 'lib',
+  async onInit({ input, space }) {
+    await space.writeFile('index.js', input.name);
+  },
+});
+
+const counter = defineKind<{ start: number }, { by: number }>({
+  kind: 'counter',
+  async onInit({ input, space }) {
+    await space.dep('vendor/lib', lib, { name: 'dep' });
+    await space.writeFile('count.txt', String(input.start));
+    return { metadata: { count: input.start } };
+  },
+  async onCommand({ command, current, space, emit }) {
+    const count = (current.metadata.count as number) + command.by;
+    await space.writeFile('count.txt', String(count));
+    emit({ count });
+    return { metadata: { count } };
+  },
+});
+
+describe('store.replay()', () => {
+  it('reports ok for a deterministic history', async () => {
+    const { store } = createTestStore();
+    const space = await store.ensure(counter, { start: 1 });
+    await space.send({ by: 2 });
+    await space.send({ by: 3 });
+
+    expect(await store.replay(space.origin)).toEqual({ ok: true, replayed: 2, divergences: [] });
+  });
+
+  it('applies reverts recorded in the command log', async () => {
+    const { store } = createTestStore();
+    const space = await store.ensure(counter, { start: 0 });
+    await space.send({ by: 1 });
+    await space.snapshot('a');
+    await space.send({ by: 2 });
+    await space.revert('a');
+    await space.send({ by: 10 });
+
+    expect(await store.replay(space.origin)).toEqual({ ok: true, replayed: 3, divergences: [] });
+  });
+
+  it('applies a revert to the state before any command, and reverts to a revert', async () => {
+    const { store } = createTestStore();
+    const space = await store.ensure(counter, { start: 5 });
+    await space.snapshot('initial');
+    await space.send({ by: 1 });
+    await space.revert('initial');
+    await space.snapshot('reverted');
+    await space.send({ by: 2 });
+    await space.revert('reverted');
+
+    expect(await store.replay(space.origin)).toEqual({ ok: true, replayed: 2, divergences: [] });
+  });
+
+  it('reports ok for a space without commands', async () => {
+    const { store } = createTestStore();
+    const space = await store.ensure(counter, { start: 1 });
+
+    expect(await store.replay(space.origin)).toEqual({ ok: true, replayed: 0, divergences: [] });
+  });
+
+  it('reports the command whose result diverges', async () => {
+    const { store } = createTestStore();
+    let bonus = 0;
+
+    const drifting = defineKind<{}, { by: number }>({
+      kind: 'drifting',
+      async onInit() {
+        return { metadata: { count: 0 } };
+      },
+      async onCommand({ command, current }) {
+        return { metadata: { count: (current.metadata.count as number) + command.by + bonus } };
+      },
+    });
+
+    const space = await store.ensure(drifting, {});
+    await space.send({ by: 1 });
+    await space.send({ by: 1 });
+
+    bonus = 10;
+    const result = await store.replay(space.origin);
+
+    expect(result!.ok).toBe(false);
+    expect(result!.replayed).toBe(2);
+    expect(result!.divergences).toEqual([
+      { seq: 1, field: 'metadata', expected: { count: 1 }, actual: { count: 11 } },
+      { seq: 2, field: 'metadata', expected: { count: 2 }, actual: { count: 22 } },
+      { field: 'metadata', expected: { count: 2 }, actual: { count: 22 } },
+    ]);
+  });
+
+  it('reports content that diverges without a metadata change', async () => {
+    const { store } = createTestStore();
+    let suffix = 'a';
+
+    const writer = defineKind<{}, {}>({
+      kind: 'writer',
+      async onInit() {},
+      async onCommand({ space }) {
+        await space.writeFile('out.txt', suffix);
+      },
+    });
+
+    const space = await store.ensure(writer, {});
+    await space.send({});
+
+    suffix = 'b';
+    const result = await store.replay(space.origin);
+
+    expect(result!.ok).toBe(false);
+    expect(result!.divergences).toHaveLength(1);
+    expect(result!.divergences[0].field).toBe('contentDigest');
+  });
+
+  it('stops at a command that throws during replay', async () => {
+    const { store } = createTestStore();
+    let failing = false;
+
+    const flaky = defineKind<{}, { n: number }>({
+      kind: 'flaky',
+      async onInit() {},
+      async onCommand({ command }) {
+        if (failing && command.n === 2) throw new Error('no longer supported');
+        return { metadata: { n: command.n } };
+      },
+    });
+
+    const space = await store.ensure(flaky, {});
+    for (let n = 1; n <= 3; n++) await space.send({ n });
+
+    failing = true;
+    const result = await store.replay(space.origin);
+
+    expect(result).toEqual({
+      ok: false,
+      replayed: 1,
+      divergences: [{ seq: 2, field: 'error', expected: undefined, actual: 'no longer supported' }],
+    });
+  });
+
+  it('leaves the space untouched and emits no custom events', async () => {
+    const { store, adapter } = createTestStore();
+    const space = await store.ensure(counter, { start: 1 });
+    await space.send({ by: 2 });
+
+    const before = await store.find(space.origin);
+    const events: RfsEvent[] = [];
+    store.on((e) => events.push(e));
+
+    await store.replay(space.origin);
+
+    const after = await store.find(space.origin);
+    expect(after!.manifest).toEqual(before!.manifest);
+    expect(events.filter(e => e.type === 'custom')).toEqual([]);
+
+    const shardDir = space.path.replace(/\/[^/]+\/space$/, '');
+    expect((await adapter.readDir(shardDir)).filter(name => name.startsWith('.tmp-'))).toEqual([]);
+  });
+
+  it('uses kinds registered up front', async () => {
+    const adapter = memoryAdapter();
+    const writer = createStore({ root: '/test', adapter });
+    const space = await writer.ensure(counter, { start: 1 });
+    await space.send({ by: 2 });
+
+    const fresh = createStore({ root: '/test', adapter });
+    await expect(fresh.replay(space.origin)).rejects.toThrow('kind "counter" is not known');
+
+    const registered = createStore({ root: '/test', adapter, kinds: [counter] });
+    expect((await registered.replay(space.origin))!.ok).toBe(true);
+  });
+
+  it('refuses a space built by another version of the kind', async () => {
+    const adapter = memoryAdapter();
+    const writer = createStore({ root: '/test', adapter });
+    const space = await writer.ensure(counter, { start: 1 });
+    await space.send({ by: 2 });
+
+    const counterV2 = defineKind<{ start: number }, { by: number }>({
+      kind: 'counter',
+      version: 2,
+      async onInit() {},
+      async onCommand() {},
+    });
+    const upgraded = createStore({ root: '/test', adapter, kinds: [counterV2] });
+    await expect(upgraded.replay(space.origin)).rejects.toThrow(
+      'built by version undefined of kind "counter", but this store knows version 2',
+    );
+  });
+
+  it('refuses a compacted history', async () => {
+    const store = createStore({ root: '/test', adapter: memoryAdapter(), commandLog: { maxEntries: 1 } });
+    const space = await store.ensure(counter, { start: 1 });
+    await space.send({ by: 1 });
+    await space.send({ by: 1 });
+
+    await expect(store.replay(space.origin)).rejects.toThrow('was compacted');
+  });
+
+  it('returns null for a missing space', async () => {
+    const { store } = createTestStore();
+    expect(await store.replay({ kind: 'counter', input: { start: 99 } })).toBeNull();
+  });
+});
@@ -0,0 +1,169 @@
+import { describe, it, expect } from 'vitest';
+import { defineKind } from '@radium-fs/core';
+import { createTestStore } from './helpers';
+
+type DraftCommand = { write?: Record<string, string>; remove?: string[]; title?: string };
+
+const lib = defineKind<{ name: string }>({
+  kind: 'lib',
+  async onInit({ input, space }) {
+    await space.writeFile('index.js', input.name);
+  },
+});
+
+const draft = defineKind<{}, DraftCommand>({
+  kind: 'draft',
+  async onInit({ space }) {
+    await space.writeFile('doc.md', 'v1');
+    await space.dep('vendor/lib', lib, { name: 'dep' });
+    return { metadata: { title: 'first' } };
+  },
+  async onCommand({ command, current, space }) {
+    for (const [path, content] of Object.entries(command.write ?? {})) {
+      await space.writeFile(path, content);
+    }
+    for (const path of command.remove ?? []) {
+      await space.remove(path);
+    }
+    return {
+      exports: { '.': '.', './doc': 'doc.md' },
+      metadata: { title: command.title ?? current.metadata.title },
+    };
+  },
+});
+
+function decode(bytes: Uint8Array): string {
+  return new TextDecoder().decode(bytes);
+}
+
+describe('space.snapshot()', () => {
+  it('records the command sequence, exports, metadata, and digest', async () => {
+    const { store } = createTestStore();
+    const space = await store.ensure(draft, {});
+    await space.send({ title: 'second' });
+
+    const snapshot = await space.snapshot('before-edit');
+
+    expect(snapshot.label).toBe('before-edit');
+    expect(snapshot.seq).toBe(1);
+    expect(snapshot.exports).toEqual({ '.': '.', './doc': 'doc.md' });
+    expect(snapshot.metadata).toEqual({ title: 'second' });
+    expect(snapshot.contentDigest).toBe((await store.find(space.origin))!.manifest.contentDigest);
+  });
+
+  it('rejects an empty label', async () => {
+    const { store } = createTestStore();
+    const space = await store.ensure(draft, {});
+    await expect(space.snapshot('')).rejects.toThrow('label must be a non-empty string');
+  });
+
+  it('rejects labels that are not a directory name of their own', async () => {
+    const { store, adapter } = createTestStore();
+    const space = await store.ensure(draft, {});
+
+    for (const label of ['.', '..', 'a/b', '../x', '.tmp-x']) {
+      await expect(space.snapshot(label)).rejects.toThrow(`invalid label "${label}"`);
+    }
+    expect(decode(await adapter.readFile(`${space.path}/doc.md`))).toBe('v1');
+    expect((await store.verify(space.origin))!.ok).toBe(true);
+  });
+});
+
+describe('space.revert()', () => {
+  it('restores files, exports, and metadata', async () => {
+    const { store, adapter } = createTestStore();
+    const space = await store.ensure(draft, {});
+
+    await space.snapshot('start');
+    await space.send({ write: { 'doc.md': 'v2', 'notes.md': 'n' }, title: 'edited' });
+
+    const restored = await space.revert('start');
+
+    expect(restored.metadata).toEqual({ title: 'first' });
+    expect(restored.exports).toEqual({ '.': space.path });
+    expect(decode(await adapter.readFile(`${space.path}/doc.md`))).toBe('v1');
+    expect(await adapter.exists(`${space.path}/notes.md`)).toBe(false);
+
+    const found = await store.find(space.origin);
+    expect(found!.manifest.metadata).toEqual({ title: 'first' });
+    expect((await store.verify(space.origin))!.ok).toBe(true);
+  });
+
+  it('restores deleted files and keeps dependency mounts', async () => {
+    const { store, adapter } = createTestStore();
+    const space = await store.ensure(draft, {});
+
+    await space.snapshot('start');
+    await space.send({ remove: ['doc.md'] });
+    await space.revert('start');
+
+    expect(decode(await adapter.readFile(`${space.path}/doc.md`))).toBe('v1');
+    expect(decode(await adapter.readFile(`${space.path}/vendor/lib/index.js`))).toBe('dep');
+  });
+
+  it('can revert to the same snapshot more than once', async () => {
+    const { store, adapter } = createTestStore();
+    const space = await store.ensure(draft, {});
+
+    await space.snapshot('start');
+    await space.send({ write: { 'doc.md': 'try 1' } });
+    await space.revert('start');
+    await space.send({ write: { 'doc.md': 'try 2' } });
+    await space.revert('start');
+
+    expect(decode(await adapter.readFile(`${space.path}/doc.md`))).toBe('v1');
+  });
+
+  it('replaces a snapshot taken again under the same label', async () => {
+    const { store, adapter } = createTestStore();
+    const space = await store.ensure(draft, {});
+
+    await space.snapshot('checkpoint');
+    await space.send({ write: { 'doc.md': 'v2' } });
+    await space.snapshot('checkpoint');
+    await space.send({ write: { 'doc.md': 'v3' } });
+    await space.revert('checkpoint');
+
+    expect(decode(await adapter.readFile(`${space.path}/doc.md`))).toBe('v2');
+  });
+
+  it('appends a revert record to the command history', async () => {
+    const { store } = createTestStore();
+    const space = await store.ensure(draft, {});
+
+    await space.send({ title: 'a' });
+    await space.snapshot('start');
+    await space.send({ title: 'b' });
+    await space.revert('start');
+
+    const history = await space.history();
+    expect(history.map(r => r.seq)).toEqual([1, 2, 3]);
+    expect(history[2]).toEqual({ seq: 3, revert: 'start', toSeq: 1, executedAt: expect.any(String) });
+    expect((await space.snapshot('after')).seq).toBe(3);
+  });
+
+  it('waits for a running command', async () => {
+    const { store, adapter } = createTestStore();
+    const space = await store.ensure(draft, {});
+    await space.snapshot('start');
+
+    const sent = space.send({ write: { 'doc.md': 'v2' } });
+    await space.revert('start');
+    await sent;
+
+    expect(decode(await adapter.readFile(`${space.path}/doc.md`))).toBe('v1');
+  });
+
+  it('throws for an unknown label', async () => {
+    const { store } = createTestStore();
+    const space = await store.ensure(draft, {});
+    await expect(space.revert('missing')).rejects.toThrow('snapshot "missing" not found');
+  });
+
+  it('rejects an invalid label', async () => {
+    const { store } = createTestStore();
+    const space = await store.ensure(draft, {});
+    await expect(space.revert('..')).rejects.toThrow('revert: invalid label ".."');
+    await expect(space.revert('')).rejects.toThrow('revert: label must be a non-empty string');
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest';
+import { createStore, defineKind, RFS_MANIFEST_FILENAME } from '@radium-fs/core';
+import type { RfsEvent, RfsLocker } from '@radium-fs/core';
+import { memoryAdapter } from '@radium-fs/memory';
+import { createTestStore, decode } from './helpers';
+
+const sleep = (ms: number) => new Promise(r => setTimeout(r, ms));
+
+const lib = defineKind<{ text: string }>({
+  kind: 'stats-lib',
+  async onInit({ input, space }) {
+    await space.writeFile('lib.txt', input.text);
+  },
+});
+
+const app = defineKind<{}, { append: string }>({
+  kind: 'stats-app',
+  async onInit({ space }) {
+    await space.dep('vendor/lib', lib, { text: 'library' });
+    await space.writeFile('a.txt', 'hello');
+    await space.mkdir('src');
+    await space.writeFile('src/b.txt', 'world!');
+    await sleep(10);
+  },
+  async onCommand({ command, space }) {
+    await space.writeFile('c.txt', command.append);
+  },
+});
+
+describe('build stats', () => {
+  it('records duration and the size of space/ in the manifest and init:done', async () => {
+    const { store } = createTestStore();
+    const events: RfsEvent[] = [];
+    store.on((e) => events.push(e));
+
+    const space = await store.ensure(app, {});
+
+    const stats = space.manifest.stats!;
+    expect(stats).toMatchObject({ fileCount: 2, byteSize: 11 });
+    expect(stats.durationMs).toBeGreaterThanOrEqual(9);
+    expect(stats.lockWaitMs).toBeGreaterThanOrEqual(0);
+
+    const done = events.filter(e => e.type === 'init:done');
+    expect(done.map(e => e.kind)).toEqual(['stats-lib', 'stats-app']);
+    expect(done[1].stats).toEqual(stats);
+    expect(done[0].stats).toMatchObject({ fileCount: 1, byteSize: 7 });
+  });
+
+  it('measures the time spent waiting for the lock', async () => {
+    const slowLocker: RfsLocker = {
+      async acquire() {
+        await sleep(20);
+        return { async release() {} };
+      },
+    };
+    const store = createStore({ root: '/test', adapter: memoryAdapter(), locker: slowLocker });
+
+    const space = await store.ensure(lib, { text: 'x' });
+    expect(space.manifest.stats!.lockWaitMs).toBeGreaterThanOrEqual(15);
+  });
+
+  it('reports command stats and refreshes sizes in the manifest', async () => {
+    const { store } = createTestStore();
+    const events: RfsEvent[] = [];
+    const space = await store.ensure(app, {});
+    const built = space.manifest.stats!;
+    store.on((e) => events.push(e));
+
+    await space.send({ append: 'abc' });
+
+    const done = events.find(e => e.type === 'command:done')!;
+    expect(done.stats).toMatchObject({ fileCount: 3, byteSize: 14 });
+
+    const [listed] = await store.list('stats-app');
+    expect(listed.manifest.stats).toEqual({ ...built, fileCount: 3, byteSize: 14 });
+  });
+});
+
+describe('store.stats()', () => {
+  it('sums recorded stats per kind and overall', async () => {
+    const { store } = createTestStore();
+    const a = await store.ensure(app, {});
+    const b = await store.ensure(lib, { text: 'more' });
+
+    const stats = await store.stats();
+    expect(Object.keys(stats.kinds).sort()).toEqual(['stats-app', 'stats-lib']);
+    expect(stats.kinds['stats-lib']).toMatchObject({ spaces: 2, unmeasured: 0, fileCount: 2, byteSize: 11 });
+    expect(stats.kinds['stats-app']).toMatchObject({ spaces: 1, fileCount: 2, byteSize: 11 });
+    expect(stats.total).toMatchObject({ spaces: 3, fileCount: 4, byteSize: 22 });
+    expect(stats.total.durationMs).toBe(
+      stats.kinds['stats-app'].durationMs + stats.kinds['stats-lib'].durationMs,
+    );
+    expect(stats.kinds['stats-app'].durationMs).toBe(a.manifest.stats!.durationMs);
+
+    const filtered = await store.stats('stats-lib');
+    expect(Object.keys(filtered.kinds)).toEqual(['stats-lib']);
+    expect(filtered.total.spaces).toBe(2);
+    expect(b.manifest.stats!.fileCount).toBe(1);
+  });
+
+  it('counts spaces built without stats as unmeasured', async () => {
+    const { store, adapter } = createTestStore();
+    const space = await store.ensure(lib, { text: 'old' });
+
+    const manifestFile = space.path.replace(/\/space$/, '/' + RFS_MANIFEST_FILENAME);
+    const { stats: _, ...legacy } = JSON.parse(decode(await adapter.readFile(manifestFile)));
+    await adapter.writeFile(manifestFile, JSON.stringify(legacy));
+
+    const stats = await store.stats();
+    expect(stats.kinds['stats-lib']).toEqual({
+      spaces: 1,
+      unmeasured: 1,
+      durationMs: 0,
+      lockWaitMs: 0,
+      fileCount: 0,
+      byteSize: 0,
+    });
+  });
+});
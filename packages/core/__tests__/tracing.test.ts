@@ -0,0 +1,136 @@
+import { describe, it, expect } from 'vitest';
+import { createStore, defineKind } from '@radium-fs/core';
+import type { RfsSpan, RfsSpanAttributes, RfsTracer } from '@radium-fs/core';
+import { memoryAdapter } from '@radium-fs/memory';
+
+interface RecordedSpan extends RfsSpan {
+  name: string;
+  attributes: RfsSpanAttributes;
+  parent?: RecordedSpan;
+  exceptions: Error[];
+  ended: number;
+}
+
+function recordingTracer() {
+  const spans: RecordedSpan[] = [];
+  const tracer: RfsTracer = {
+    startSpan(name, attributes, parent) {
+      const span: RecordedSpan = {
+        name,
+        attributes: { ...attributes },
+        parent: parent as RecordedSpan | undefined,
+        exceptions: [],
+        ended: 0,
+        setAttribute(key, value) { span.attributes[key] = value; },
+        recordException(exception) { span.exceptions.push(exception); },
+        end() { span.ended++; },
+      };
+      spans.push(span);
+      return span;
+    },
+  };
+  return { tracer, spans };
+}
+
+function createTracedStore() {
+  const { tracer, spans } = recordingTracer();
+  const store = createStore({ root: '/test', adapter: memoryAdapter(), tracer });
+  return { store, spans };
+}
+
+/** Span names under `parent`, in start order */
+function children(spans: RecordedSpan[], parent: RecordedSpan | undefined): string[] {
+  return spans.filter(span => span.parent === parent).map(span => span.name);
+}
+
+const leaf = defineKind({
+  kind: 'trace-leaf',
+  async onInit({ space }) {
+    await space.writeFile('a.txt', 'a');
+  },
+});
+
+const app = defineKind({
+  kind: 'trace-app',
+  async onInit({ space }) {
+    await space.dep('lib', leaf, {});
+  },
+});
+
+describe('RfsStoreOptions.tracer', () => {
+  it('nests dependency ensures under the dep span of their parent', async () => {
+    const { store, spans } = createTracedStore();
+    const space = await store.ensure(app, {});
+
+    const root = spans[0];
+    expect(root).toMatchObject({
+      name: 'rfs.ensure',
+      parent: undefined,
+      attributes: { 'rfs.kind': 'trace-app', 'rfs.data_id': space.dataId, 'rfs.cached': false },
+    });
+    expect(children(spans, root)).toEqual([
+      'rfs.lock',
+      'rfs.dep',
+      'rfs.manifest.write',
+      'rfs.manifest.read',
+    ]);
+
+    const dep = spans.find(span => span.name === 'rfs.dep')!;
+    expect(dep.attributes).toMatchObject({ 'rfs.kind': 'trace-leaf', 'rfs.mount_path': 'lib', 'rfs.scope': 'shared' });
+    expect(children(spans, dep)).toEqual(['rfs.ensure']);
+
+    const child = spans.find(span => span.parent === dep)!;
+    expect(child.attributes).toMatchObject({ 'rfs.kind': 'trace-leaf', 'rfs.data_id': dep.attributes['rfs.data_id'] });
+    expect(spans.every(span => span.ended === 1)).toBe(true);
+  });
+
+  it('marks cache hits on the ensure span', async () => {
+    const { store, spans } = createTracedStore();
+    await store.ensure(leaf, {});
+    spans.length = 0;
+
+    await store.ensure(leaf, {});
+    expect(spans[0].attributes['rfs.cached']).toBe(true);
+    expect(children(spans, spans[0])).toEqual(['rfs.lock', 'rfs.manifest.read']);
+  });
+
+  it('records failed builds on the ensure span', async () => {
+    const { store, spans } = createTracedStore();
+    const broken = defineKind({
+      kind: 'trace-broken',
+      async onInit() { throw new Error('boom'); },
+    });
+
+    await expect(store.ensure(broken, {})).rejects.toThrow('boom');
+    expect(spans[0].exceptions.map(e => e.message)).toEqual(['boom']);
+    expect(spans.every(span => span.ended === 1)).toBe(true);
+  });
+
+  it('traces each onCommand with its lock and manifest I/O', async () => {
+    const { store, spans } = createTracedStore();
+    const counter = defineKind<{}, { fail?: boolean }>({
+      kind: 'trace-counter',
+      async onInit() {},
+      async onCommand({ command }) {
+        if (command.fail) throw new Error('bad command');
+      },
+    });
+    const space = await store.ensure(counter, {});
+    spans.length = 0;
+
+    await space.send({});
+    const command = spans[0];
+    expect(command).toMatchObject({
+      name: 'rfs.command',
+      parent: undefined,
+      attributes: { 'rfs.kind': 'trace-counter', 'rfs.data_id': space.dataId },
+    });
+    expect(children(spans, command)).toEqual(['rfs.lock', 'rfs.manifest.read', 'rfs.manifest.write']);
+    expect(spans.find(span => span.name === 'rfs.lock')!.attributes['rfs.lock_key']).toBe(`cmd:${space.dataId}`);
+
+    spans.length = 0;
+    await expect(space.send({ fail: true })).rejects.toThrow('bad command');
+    expect(spans[0].exceptions.map(e => e.message)).toEqual(['bad command']);
+    expect(spans.every(span => span.ended === 1)).toBe(true);
+  });
+});
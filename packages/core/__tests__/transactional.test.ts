@@ -0,0 +1,199 @@
+import { describe, it, expect } from 'vitest';
+import { createStore, defineKind, RFS_STAGING_DIRNAME, RFS_PREVIOUS_SPACE_DIRNAME } from '@radium-fs/core';
+import type { RfsAdapter } from '@radium-fs/core';
+import { memoryAdapter } from '@radium-fs/memory';
+import { createTestStore } from './helpers';
+
+type EditCommand = { write?: Record<string, string>; remove?: string[]; fail?: boolean };
+
+const lib = defineKind<{ name: string }>({
+  kind: 'lib',
+  async onInit({ input, space }) {
+    await space.writeFile('index.js', input.name);
+  },
+});
+
+const doc = defineKind<{}, EditCommand>({
+  kind: 'doc',
+  transactional: true,
+  async onInit({ space }) {
+    await space.writeFile('a.txt', 'a');
+    await space.writeFile('nested/b.txt', 'b');
+    await space.dep('vendor/lib', lib, { name: 'dep' });
+  },
+  async onCommand({ command, space }) {
+    for (const [path, content] of Object.entries(command.write ?? {})) {
+      await space.writeFile(path, content);
+    }
+    for (const path of command.remove ?? []) {
+      await space.remove(path);
+    }
+    if (command.fail) throw new Error('boom');
+  },
+});
+
+function decode(bytes: Uint8Array): string {
+  return new TextDecoder().decode(bytes);
+}
+
+describe('transactional commands', () => {
+  it('apply their changes to space/ on success', async () => {
+    const { store, adapter } = createTestStore();
+    const space = await store.ensure(doc, {});
+
+    await space.send({ write: { 'a.txt': 'A', 'c.txt': 'c' }, remove: ['nested/b.txt'] });
+
+    expect(decode(await adapter.readFile(`${space.path}/a.txt`))).toBe('A');
+    expect(decode(await adapter.readFile(`${space.path}/c.txt`))).toBe('c');
+    expect(await adapter.exists(`${space.path}/nested/b.txt`)).toBe(false);
+    expect((await store.verify(space.origin))!.ok).toBe(true);
+  });
+
+  it('leave space/ untouched when onCommand throws', async () => {
+    const { store, adapter } = createTestStore();
+    const space = await store.ensure(doc, {});
+
+    await expect(
+      space.send({ write: { 'a.txt': 'A', 'c.txt': 'c' }, remove: ['nested/b.txt'], fail: true }),
+    ).rejects.toThrow('boom');
+
+    expect(decode(await adapter.readFile(`${space.path}/a.txt`))).toBe('a');
+    expect(decode(await adapter.readFile(`${space.path}/nested/b.txt`))).toBe('b');
+    expect(await adapter.exists(`${space.path}/c.txt`)).toBe(false);
+    expect((await store.verify(space.origin))!.ok).toBe(true);
+  });
+
+  it('leave space/ untouched when aborted', async () => {
+    const { store, adapter } = createTestStore();
+    const space = await store.ensure(doc, {});
+
+    const controller = new AbortController();
+    controller.abort();
+    const pending = space.send({ write: { 'a.txt': 'A' } }, { signal: controller.signal });
+
+    await expect(pending).rejects.toThrow('aborted');
+    expect(decode(await adapter.readFile(`${space.path}/a.txt`))).toBe('a');
+  });
+
+  it('keep dependency mounts working', async () => {
+    const { store, adapter } = createTestStore();
+    const space = await store.ensure(doc, {});
+
+    let seen = '';
+    const reader = defineKind<{}, EditCommand>({
+      kind: 'doc-reader',
+      transactional: true,
+      async onInit({ space }) {
+        await space.dep('vendor/lib', lib, { name: 'dep' });
+      },
+      async onCommand({ space }) {
+        seen = await space.readFile('vendor/lib/index.js');
+      },
+    });
+    const readerSpace = await store.ensure(reader, {});
+    await readerSpace.send({});
+    expect(seen).toBe('dep');
+
+    await space.send({ write: { 'a.txt': 'A' } });
+    expect(decode(await adapter.readFile(`${space.path}/vendor/lib/index.js`))).toBe('dep');
+    expect(await store.dependents({ kind: 'lib', input: { name: 'dep' } })).toHaveLength(2);
+  });
+
+  it('work on a staging copy and clean it up', async () => {
+    const { store, adapter } = createTestStore();
+    let commandPath = '';
+
+    const kind = defineKind<{}, { fail: boolean }>({
+      kind: 'staging-path',
+      transactional: true,
+      async onInit({ space }) {
+        await space.writeFile('a.txt', 'a');
+      },
+      async onCommand({ command, space }) {
+        commandPath = space.path;
+        if (command.fail) throw new Error('boom');
+      },
+    });
+
+    const space = await store.ensure(kind, {});
+    const dataDir = space.path.replace(/\/space$/, '');
+
+    await space.send({ fail: false });
+    expect(commandPath).toBe(`${dataDir}/${RFS_STAGING_DIRNAME}`);
+    expect(await adapter.exists(commandPath)).toBe(false);
+    expect(await adapter.exists(`${dataDir}/${RFS_PREVIOUS_SPACE_DIRNAME}`)).toBe(false);
+
+    await expect(space.send({ fail: true })).rejects.toThrow('boom');
+    expect(await adapter.exists(commandPath)).toBe(false);
+  });
+
+  it('restore space/ left mid-swap by an interrupted command', async () => {
+    const { store, adapter } = createTestStore();
+    const space = await store.ensure(doc, {});
+    const dataDir = space.path.replace(/\/space$/, '');
+
+    await adapter.rename(space.path, `${dataDir}/${RFS_PREVIOUS_SPACE_DIRNAME}`);
+    await space.send({ write: { 'c.txt': 'c' } });
+
+    expect(decode(await adapter.readFile(`${space.path}/a.txt`))).toBe('a');
+    expect(decode(await adapter.readFile(`${space.path}/c.txt`))).toBe('c');
+    expect(await adapter.exists(`${dataDir}/${RFS_PREVIOUS_SPACE_DIRNAME}`)).toBe(false);
+  });
+
+  it('finish a swap interrupted after the manifest was written', async () => {
+    const base = memoryAdapter();
+    let crash = true;
+    const adapter: RfsAdapter = {
+      ...base,
+      async rename(from, to) {
+        if (crash && to.endsWith('/' + RFS_PREVIOUS_SPACE_DIRNAME)) {
+          crash = false;
+          throw new Error('crashed');
+        }
+        return base.rename(from, to);
+      },
+    };
+    const store = createStore({ root: '/test', adapter });
+    const space = await store.ensure(doc, {});
+    const dataDir = space.path.replace(/\/space$/, '');
+
+    await expect(space.send({ write: { 'a.txt': 'A' } })).rejects.toThrow('crashed');
+    expect(await adapter.exists(`${dataDir}/${RFS_STAGING_DIRNAME}`)).toBe(true);
+
+    await space.send({ write: { 'c.txt': 'c' } });
+
+    expect(decode(await adapter.readFile(`${space.path}/a.txt`))).toBe('A');
+    expect(decode(await adapter.readFile(`${space.path}/c.txt`))).toBe('c');
+    expect(await adapter.exists(`${dataDir}/${RFS_STAGING_DIRNAME}`)).toBe(false);
+    expect((await store.verify(space.origin))!.ok).toBe(true);
+  });
+
+  it('copy symlinks other than dependency mounts as links', async () => {
+    const { store, adapter } = createTestStore();
+    const space = await store.ensure(doc, {});
+    await adapter.symlink('a.txt', `${space.path}/alias.txt`);
+
+    await space.send({ write: { 'c.txt': 'c' } });
+
+    expect(await adapter.readLink!(`${space.path}/alias.txt`)).toBe('a.txt');
+  });
+
+  it('non-transactional kinds keep partial writes (default behavior)', async () => {
+    const { store, adapter } = createTestStore();
+
+    const kind = defineKind<{}, {}>({
+      kind: 'direct',
+      async onInit({ space }) {
+        await space.writeFile('a.txt', 'a');
+      },
+      async onCommand({ space }) {
+        await space.writeFile('a.txt', 'A');
+        throw new Error('boom');
+      },
+    });
+
+    const space = await store.ensure(kind, {});
+    await expect(space.send({})).rejects.toThrow('boom');
+    expect(decode(await adapter.readFile(`${space.path}/a.txt`))).toBe('A');
+  });
+});
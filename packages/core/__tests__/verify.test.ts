@@ -0,0 +1,231 @@
+import { describe, it, expect } from 'vitest';
+import { defineKind } from '@radium-fs/core';
+import { createTestStore, decode } from './helpers';
+
+const lib = defineKind<{ name: string }>({
+  kind: 'lib',
+  async onInit({ input, space }) {
+    await space.writeFile('index.js', input.name);
+  },
+});
+
+describe('content digest', () => {
+  it('is recorded in the manifest at build time', async () => {
+    const { store } = createTestStore();
+    const space = await store.ensure(lib, { name: 'a' });
+
+    expect(space.manifest.contentDigest).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it('is identical for identical content', async () => {
+    const { store } = createTestStore();
+
+    const other = defineKind<{ name: string }>({
+      kind: 'lib-copy',
+      async onInit({ input, space }) {
+        await space.writeFile('index.js', input.name);
+      },
+    });
+
+    const a = await store.ensure(lib, { name: 'same' });
+    const b = await store.ensure(other, { name: 'same' });
+    const c = await store.ensure(lib, { name: 'different' });
+
+    expect(a.manifest.contentDigest).toBe(b.manifest.contentDigest);
+    expect(a.manifest.contentDigest).not.toBe(c.manifest.contentDigest);
+  });
+
+  it('is updated after a command', async () => {
+    const { store } = createTestStore();
+
+    const counter = defineKind<{}, { n: number }>({
+      kind: 'counter',
+      async onInit({ space }) {
+        await space.writeFile('n.txt', '0');
+      },
+      async onCommand({ command, space }) {
+        await space.writeFile('n.txt', String(command.n));
+      },
+    });
+
+    const space = await store.ensure(counter, {});
+    await space.send({ n: 1 });
+
+    const result = await store.verify(space.origin);
+    expect(result!.ok).toBe(true);
+    expect(result!.expected).not.toBe(space.manifest.contentDigest);
+  });
+});
+
+describe('store.verify()', () => {
+  it('reports ok for an untouched space', async () => {
+    const { store } = createTestStore();
+    const space = await store.ensure(lib, { name: 'a' });
+
+    const result = await store.verify(space.origin);
+    expect(result).toEqual({
+      ok: true,
+      expected: space.manifest.contentDigest,
+      actual: space.manifest.contentDigest,
+    });
+  });
+
+  it('detects edited, added and removed files', async () => {
+    const { store, adapter } = createTestStore();
+    const space = await store.ensure(lib, { name: 'a' });
+
+    await adapter.writeFile(`${space.path}/index.js`, 'tampered');
+    expect((await store.verify(space.origin))!.ok).toBe(false);
+
+    await adapter.writeFile(`${space.path}/index.js`, 'a');
+    expect((await store.verify(space.origin))!.ok).toBe(true);
+
+    await adapter.writeFile(`${space.path}/extra.txt`, '');
+    expect((await store.verify(space.origin))!.ok).toBe(false);
+
+    await adapter.remove(`${space.path}/extra.txt`);
+    await adapter.remove(`${space.path}/index.js`);
+    expect((await store.verify(space.origin))!.ok).toBe(false);
+  });
+
+  it('does not follow dependency mounts', async () => {
+    const { store, adapter } = createTestStore();
+
+    const app = defineKind({
+      kind: 'app',
+      async onInit({ space }) {
+        await space.dep('vendor/lib', lib, { name: 'dep' });
+        await space.writeFile('main.js', 'main');
+      },
+    });
+
+    const space = await store.ensure(app, {});
+    const libSpace = await store.find({ kind: 'lib', input: { name: 'dep' } });
+    await adapter.writeFile(`${libSpace!.path}/index.js`, 'changed');
+
+    expect((await store.verify(space.origin))!.ok).toBe(true);
+    expect((await store.verify(libSpace!.origin))!.ok).toBe(false);
+  });
+
+  it('returns null for a missing space', async () => {
+    const { store } = createTestStore();
+    expect(await store.verify({ kind: 'lib', input: { name: 'missing' } })).toBeNull();
+  });
+});
+
+describe('ensure({ verify: true })', () => {
+  it('reuses an intact space', async () => {
+    const { store } = createTestStore();
+    let calls = 0;
+
+    const kind = defineKind({
+      kind: 'verify-hit',
+      async onInit({ space }) {
+        calls++;
+        await space.writeFile('a.txt', 'a');
+      },
+    });
+
+    await store.ensure(kind, {});
+    await store.ensure(kind, {}, { verify: true });
+    expect(calls).toBe(1);
+  });
+
+  it('rebuilds a space whose content was modified', async () => {
+    const { store, adapter } = createTestStore();
+    let calls = 0;
+
+    const kind = defineKind({
+      kind: 'verify-miss',
+      async onInit({ space }) {
+        calls++;
+        await space.writeFile('a.txt', 'a');
+      },
+    });
+
+    const space = await store.ensure(kind, {});
+    await adapter.writeFile(`${space.path}/a.txt`, 'truncated');
+
+    await store.ensure(kind, {});
+    expect(calls).toBe(1);
+
+    await store.ensure(kind, {}, { verify: true });
+    expect(calls).toBe(2);
+    expect((await store.verify(space.origin))!.ok).toBe(true);
+  });
+
+  it('waits for a running command instead of rebuilding under it', async () => {
+    const { store, adapter } = createTestStore();
+    let calls = 0;
+    let started!: () => void;
+    let release!: () => void;
+    const commandStarted = new Promise<void>((resolve) => { started = resolve; });
+    const gate = new Promise<void>((resolve) => { release = resolve; });
+
+    const kind = defineKind<{}, {}>({
+      kind: 'verify-command',
+      async onInit({ space }) {
+        calls++;
+        await space.writeFile('a.txt', '0');
+        await space.writeFile('b.txt', '0');
+      },
+      async onCommand({ space }) {
+        await space.writeFile('a.txt', '1');
+        started();
+        await gate;
+        await space.writeFile('b.txt', '1');
+      },
+    });
+
+    const space = await store.ensure(kind, {});
+    const sent = space.send({});
+    await commandStarted;
+
+    const verified = store.ensure(kind, {}, { verify: true });
+    await new Promise((r) => setTimeout(r, 10));
+    release();
+    await sent;
+    const after = await verified;
+
+    expect(calls).toBe(1);
+    expect(decode(await adapter.readFile(`${after.path}/a.txt`))).toBe('1');
+    expect(decode(await adapter.readFile(`${after.path}/b.txt`))).toBe('1');
+    expect((await store.verify(space.origin))!.ok).toBe(true);
+  });
+
+  it('lets a running command finish before an invalidation rebuild', async () => {
+    const { store } = createTestStore();
+    const writes: string[] = [];
+    let started!: () => void;
+    let release!: () => void;
+    const commandStarted = new Promise<void>((resolve) => { started = resolve; });
+    const gate = new Promise<void>((resolve) => { release = resolve; });
+
+    const kind = defineKind<{}, {}>({
+      kind: 'invalidate-command',
+      async onInit({ space }) {
+        writes.push('init');
+        await space.writeFile('a.txt', '0');
+      },
+      async onCommand({ space }) {
+        started();
+        await gate;
+        writes.push('command');
+        await space.writeFile('a.txt', '1');
+      },
+    });
+
+    const space = await store.ensure(kind, {});
+    const sent = space.send({});
+    await commandStarted;
+
+    const rebuilt = store.invalidate(space.origin, { rebuild: true });
+    await new Promise((r) => setTimeout(r, 10));
+    release();
+    await sent;
+    await rebuilt;
+
+    expect(writes).toEqual(['init', 'command', 'init']);
+    expect((await store.verify(space.origin))!.ok).toBe(true);
+  });
+});
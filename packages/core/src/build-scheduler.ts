@@ -0,0 +1,130 @@
+/**
+ * Build scheduler — store-wide limit on concurrent onInit runs
+ *
+ * Used by createStore() when `concurrency` is set. Builds take a slot
+ * before onInit and give it back when they finish; waiting builds are
+ * granted slots by descending priority, FIFO among equal priorities.
+ * A build that is waiting on its own dependencies lends its slot out
+ * (see BuildSlot.yieldWhile) so a DAG deeper than the limit cannot
+ * deadlock on itself.
+ */
+
+interface Waiter {
+  priority: number;
+  grant: () => void;
+}
+
+export interface BuildScheduler {
+  /** Take a slot if one is free and nobody is waiting */
+  tryAcquire(): boolean;
+
+  /** Wait for a slot; rejects if the signal aborts first */
+  acquire(priority: number, signal?: AbortSignal): Promise<void>;
+
+  /** Give a slot back */
+  release(): void;
+}
+
+export interface BuildSlot {
+  /** Give the slot up while `work` runs, then wait to get it back */
+  yieldWhile<T>(work: () => Promise<T>): Promise<T>;
+
+  /** Give the slot back for good (no-op if it is not held) */
+  release(): Promise<void>;
+}
+
+/**
+ * Create a scheduler granting at most `limit` slots at a time
+ *
+ * @param limit - Positive integer or Infinity
+ */
+export function createBuildScheduler(limit: number): BuildScheduler {
+  let running = 0;
+  const waiters: Waiter[] = [];
+
+  function tryAcquire(): boolean {
+    if (running >= limit || waiters.length > 0) return false;
+    running++;
+    return true;
+  }
+
+  function drain(): void {
+    while (running < limit && waiters.length > 0) {
+      const waiter = waiters.shift()!;
+      running++;
+      waiter.grant();
+    }
+  }
+
+  return {
+    tryAcquire,
+
+    acquire(priority, signal) {
+      if (signal?.aborted) return Promise.reject(new Error('Operation aborted'));
+      if (tryAcquire()) return Promise.resolve();
+
+      return new Promise<void>((resolve, reject) => {
+        const onAbort = () => {
+          const index = waiters.indexOf(waiter);
+          if (index !== -1) waiters.splice(index, 1);
+          reject(new Error('Operation aborted'));
+        };
+        const waiter: Waiter = {
+          priority,
+          grant: () => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+          },
+        };
+
+        // Keep waiters sorted: higher priority first, then arrival order
+        const index = waiters.findIndex(w => w.priority < priority);
+        waiters.splice(index === -1 ? waiters.length : index, 0, waiter);
+        signal?.addEventListener('abort', onAbort, { once: true });
+      });
+    },
+
+    release() {
+      running--;
+      drain();
+    },
+  };
+}
+
+/**
+ * Wrap a slot that has already been acquired
+ *
+ * Hand-offs are serialized, so overlapping yieldWhile() calls (e.g. from
+ * space.deps()) give the slot up once and take it back once the last one
+ * finishes.
+ */
+export function holdBuildSlot(scheduler: BuildScheduler, priority: number): BuildSlot {
+  let held = true;
+  let yielded = 0;
+  let transition: Promise<void> = Promise.resolve();
+
+  function setHeld(want: boolean): Promise<void> {
+    transition = transition.then(async () => {
+      if (held === want) return;
+      if (want) await scheduler.acquire(priority);
+      else scheduler.release();
+      held = want;
+    });
+    return transition;
+  }
+
+  return {
+    async yieldWhile(work) {
+      if (yielded++ === 0) await setHeld(false);
+      try {
+        return await work();
+      } finally {
+        if (--yielded === 0) await setHeld(true);
+      }
+    },
+
+    release() {
+      return setHeld(false);
+    },
+  };
+}
@@ -11,8 +11,31 @@
  * - `undefined` properties are omitted
  * - `NaN` and `Infinity` are serialized as `null`
  * - Arrays preserve insertion order (they are ordered data structures)
+ *
+ * Values JSON cannot represent get a tagged encoding that is not valid JSON,
+ * so they never collide with a JSON value (or with each other):
+ * - `Date` → `Date("2024-01-01T00:00:00.000Z")` (`Date(null)` if invalid)
+ * - `bigint` → `12n`
+ * - `Map` → `Map([[key,value],...])`, entries sorted by serialized key
+ * - `Set` → `Set([value,...])`, values sorted by serialized value
+ * - Typed arrays and `DataView` → `Uint8Array([1,2,3])`, `DataView([bytes])`;
+ *   non-finite float elements as `NaN`, `Infinity`, and `-Infinity`
+ *
+ * Circular references always throw. Functions, symbols, and non-plain
+ * objects (class instances other than the types above) serialize as `null`
+ * or plain objects by default, and throw with `unsupported: 'throw'`.
  */
 
+/** Options for canonicalStringify */
+export interface RfsCanonicalOptions {
+  /**
+   * Handling of values without a canonical encoding
+   * - `'null'` (default): functions and symbols become `null`, class instances are walked as plain objects
+   * - `'throw'`: throw an error naming the value's path
+   */
+  unsupported?: 'null' | 'throw';
+}
+
 /**
  * Serialize a value to a canonical JSON string
  *
@@ -20,9 +43,16 @@
  * ```typescript
  * canonicalStringify({ b: 2, a: 1 }); // '{"a":1,"b":2}'
  * canonicalStringify({ a: { z: 1, y: 2 } }); // '{"a":{"y":2,"z":1}}'
+ * canonicalStringify({ at: new Date(0) }); // '{"at":Date("1970-01-01T00:00:00.000Z")}'
  * ```
+ *
+ * @throws Error on circular references, and on unsupported values with `unsupported: 'throw'`
  */
-export function canonicalStringify(value: unknown): string {
+export function canonicalStringify(value: unknown, options?: RfsCanonicalOptions): string {
+  return serialize(value, '$', new Set(), options?.unsupported === 'throw');
+}
+
+function serialize(value: unknown, path: string, ancestors: Set<object>, strict: boolean): string {
   if (value === null || value === undefined) {
     return 'null';
   }
@@ -38,19 +68,79 @@ export function canonicalStringify(value: unknown): string {
     case 'string':
       return JSON.stringify(value);
 
+    case 'bigint':
+      return value.toString() + 'n';
+
     case 'object':
       break;
 
     default:
+      if (strict) {
+        throw new Error(`canonicalStringify: cannot serialize ${typeof value} at ${path}`);
+      }
       return 'null';
   }
 
+  const obj = value as object;
+  if (ancestors.has(obj)) {
+    throw new Error(`canonicalStringify: circular reference at ${path}`);
+  }
+  ancestors.add(obj);
+  try {
+    return serializeObject(obj, path, ancestors, strict);
+  } finally {
+    ancestors.delete(obj);
+  }
+}
+
+function serializeObject(value: object, path: string, ancestors: Set<object>, strict: boolean): string {
   // Array — preserve order
   if (Array.isArray(value)) {
-    const items = value.map(canonicalStringify);
+    const items = value.map((item, i) => serialize(item, `${path}[${i}]`, ancestors, strict));
     return '[' + items.join(',') + ']';
   }
 
+  if (value instanceof Date) {
+    const time = value.getTime();
+    return 'Date(' + (Number.isNaN(time) ? 'null' : JSON.stringify(value.toISOString())) + ')';
+  }
+
+  // Map — entries sorted by serialized key
+  if (value instanceof Map) {
+    const entries = [...value].map(([k, v], i) => {
+      const key = serialize(k, `${path}<key ${i}>`, ancestors, strict);
+      return [key, '[' + key + ',' + serialize(v, `${path}<${key}>`, ancestors, strict) + ']'];
+    });
+    entries.sort((a, b) => compare(a[0], b[0]));
+    return 'Map([' + entries.map(entry => entry[1]).join(',') + '])';
+  }
+
+  // Set — values sorted by serialization
+  if (value instanceof Set) {
+    const items = [...value].map((item, i) => serialize(item, `${path}<item ${i}>`, ancestors, strict));
+    items.sort(compare);
+    return 'Set([' + items.join(',') + '])';
+  }
+
+  // Typed arrays and DataView — element values (bytes for DataView)
+  if (ArrayBuffer.isView(value)) {
+    const tag = Object.prototype.toString.call(value).slice(8, -1);
+    const items = value instanceof DataView
+      ? Array.from(new Uint8Array(value.buffer, value.byteOffset, value.byteLength), String)
+      : Array.from(value as unknown as ArrayLike<number | bigint>, item =>
+        typeof item === 'bigint' ? item.toString() + 'n'
+          : Number.isFinite(item) ? JSON.stringify(item) : String(item));
+    return tag + '([' + items.join(',') + '])';
+  }
+
+  if (strict) {
+    const proto = Object.getPrototypeOf(value);
+    if (proto !== Object.prototype && proto !== null) {
+      const name = (proto as { constructor?: { name?: string } }).constructor?.name || 'object';
+      throw new Error(`canonicalStringify: cannot serialize ${name} instance at ${path}`);
+    }
+  }
+
   // Object — sort keys recursively
   const obj = value as Record<string, unknown>;
   const keys = Object.keys(obj).sort();
@@ -59,8 +149,13 @@ export function canonicalStringify(value: unknown): string {
   for (const key of keys) {
     const v = obj[key];
     if (v === undefined) continue;
-    pairs.push(JSON.stringify(key) + ':' + canonicalStringify(v));
+    pairs.push(JSON.stringify(key) + ':' + serialize(v, `${path}.${key}`, ancestors, strict));
   }
 
   return '{' + pairs.join(',') + '}';
 }
+
+/** String comparison in the same order as the object key sort */
+function compare(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
@@ -0,0 +1,63 @@
+/**
+ * Command scope — which spaces' onCommand the current call is running inside
+ *
+ * A send() to a space from inside that space's own onCommand would wait
+ * for itself forever, since commands on a space run one at a time. The
+ * store checks the scope first and rejects such calls instead.
+ *
+ * Uses AsyncLocalStorage when the runtime provides it (Node.js), so calls
+ * made after any number of awaits are seen. Elsewhere the scope is only set
+ * while onCommand runs synchronously, up to its first await.
+ */
+
+/** The part of AsyncLocalStorage the scope relies on */
+interface ScopeStorage {
+  getStore(): ReadonlySet<string> | undefined;
+  run<R>(store: ReadonlySet<string>, fn: () => R): R;
+}
+
+export interface CommandScope {
+  /** Whether the caller runs inside onCommand of this dataId */
+  has(dataId: string): boolean;
+
+  /** Run fn (an onCommand call) inside the scope of dataId */
+  run<R>(dataId: string, fn: () => R): R;
+}
+
+function createStorage(): ScopeStorage {
+  const runtime = globalThis as { process?: { getBuiltinModule?: (id: string) => unknown } };
+  const hooks = runtime.process?.getBuiltinModule?.('node:async_hooks') as
+    | { AsyncLocalStorage?: new () => ScopeStorage }
+    | undefined;
+  if (hooks?.AsyncLocalStorage) return new hooks.AsyncLocalStorage();
+
+  // No async context: track the synchronous part of the call only
+  let current: ReadonlySet<string> | undefined;
+  return {
+    getStore: () => current,
+    run(store, fn) {
+      const previous = current;
+      current = store;
+      try {
+        return fn();
+      } finally {
+        current = previous;
+      }
+    },
+  };
+}
+
+/** Create a command scope (one per store, as dataIds are per store root) */
+export function createCommandScope(): CommandScope {
+  const storage = createStorage();
+
+  return {
+    has(dataId) {
+      return storage.getStore()?.has(dataId) ?? false;
+    },
+    run(dataId, fn) {
+      const outer = storage.getStore();
+      return storage.run(new Set([...(outer ?? []), dataId]), fn);
+    },
+  };
+}
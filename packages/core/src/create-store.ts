@@ -6,21 +6,42 @@
  */
 
 import { canonicalStringify } from './canonical';
+import type { RfsCanonicalOptions } from './canonical';
+import { parseStored, stringifyStored } from './stored-json';
+import { computeContentDigest, measureDirectory, normalizeMountPath } from './digest';
+import { memoryLocker } from './memory-locker';
+import { validateSchema } from './schema';
+import { RfsCycleError } from './errors';
+import { createBuildScheduler, holdBuildSlot } from './build-scheduler';
+import type { BuildSlot } from './build-scheduler';
+import { noopTracer, withSpan } from './tracer';
+import { createCommandScope } from './command-scope';
 import type {
   RfsAdapter,
   RfsManifest,
   RfsOrigin,
   RfsDependency,
   RfsCommandRecord,
+  RfsCommandLogRecord,
+  RfsRevertRecord,
+  RfsBuildStats,
   RfsKind,
+  RfsAnyKind,
   RfsInitResult,
   RfsCommandResult,
+  RfsLogEntry,
+  RfsLogLevel,
+  RfsLogFn,
+  RfsLogger,
   RfsOnInitContext,
   RfsOnCommandContext,
   RfsSpaceApi,
   RfsCommandSpaceApi,
   RfsLocalApi,
   RfsDepOptions,
+  RfsDepsOptions,
+  RfsDepSpec,
+  RfsDepSpecs,
   RfsReadFileOptions,
   RfsReadDirOptions,
   RfsStatResult,
@@ -28,6 +49,7 @@ import type {
   RfsGlobOptions,
   RfsGrepOptions,
   RfsEvent,
+  RfsCustomEvent,
   RfsUnsubscribe,
   RfsCommandEventMap,
   RfsStoreOptions,
@@ -36,14 +58,40 @@ import type {
   RfsSpace,
   RfsSpaceBase,
   RfsSpaceWithCommands,
+  RfsSendOptions,
+  RfsPendingCommand,
+  RfsHistoryOptions,
+  RfsSnapshot,
   RfsLockHandle,
+  RfsSpan,
+  RfsTracer,
+  RfsGcOptions,
+  RfsGcResult,
+  RfsDependent,
+  RfsInvalidateOptions,
+  RfsInvalidateResult,
+  RfsVerifyResult,
+  RfsKindStats,
+  RfsStoreStats,
+  RfsReplayResult,
+  RfsPlanNode,
+  RfsReplayDivergence,
 } from './defs';
 import {
   RFS_MANIFEST_FILENAME,
+  RFS_COMMAND_LOG_FILENAME,
+  RFS_BUILD_LOG_FILENAME,
   RFS_SPACE_DIRNAME,
   RFS_LOCAL_DIRNAME,
+  RFS_STAGING_DIRNAME,
+  RFS_PREVIOUS_SPACE_DIRNAME,
+  RFS_SNAPSHOTS_DIRNAME,
+  RFS_SNAPSHOT_FILENAME,
   RFS_LOCAL_DEPS_DIRNAME,
   RFS_DATA_DIRNAME,
+  RFS_INDEX_DIRNAME,
+  RFS_DEPENDENTS_DIRNAME,
+  RFS_PENDING_DIRNAME,
   RFS_TEMP_PREFIX,
   RFS_MANIFEST_VERSION,
 } from './defs';
@@ -94,12 +142,29 @@ async function computeDataId(
   kind: string,
   input: Record<string, unknown>,
   cacheKeyFn?: (input: unknown) => Record<string, unknown>,
+  version?: string | number,
+  canonicalOptions?: RfsCanonicalOptions,
 ): Promise<string> {
   const payload = cacheKeyFn ? cacheKeyFn(input) : input;
-  const raw = kind + '\0' + canonicalStringify(payload);
+  // Unversioned kinds keep the original `kind \0 payload` layout so existing dataIds stay valid
+  const prefix = version === undefined
+    ? kind + '\0'
+    : kind + '\0' + canonicalStringify(version) + '\0';
+  const raw = prefix + canonicalStringify(payload, canonicalOptions);
   return adapter.hash(encoder.encode(raw));
 }
 
+/** A kind whose input, command, and runtime types are only known at run time */
+type UntypedKind = RfsKind<Record<string, unknown>, unknown, Record<string, unknown>>;
+
+/** Static dependency specs of a kind, typed for space.deps() */
+function staticDepSpecs(specs: Record<string, RfsDepSpec>): RfsDepSpecs<Record<string, unknown>> {
+  return specs as RfsDepSpecs<Record<string, unknown>>;
+}
+
+/** Default RfsGcOptions.tempGraceMs */
+const DEFAULT_TEMP_GRACE_MS = 60 * 60 * 1000;
+
 function getShard(dataId: string): string {
   return dataId.slice(0, 2);
 }
@@ -119,23 +184,328 @@ function buildTempDir(root: string, kind: string, dataId: string): string {
   );
 }
 
+function buildLocalDepDir(parentDataDir: string, kind: string, dataId: string): string {
+  return joinPath(parentDataDir, RFS_LOCAL_DEPS_DIRNAME, kind, getShard(dataId), dataId);
+}
+
 function manifestPath(dir: string): string {
   return joinPath(dir, RFS_MANIFEST_FILENAME);
 }
 
 async function readManifest(adapter: RfsAdapter, dir: string): Promise<RfsManifest> {
   const bytes = await adapter.readFile(manifestPath(dir));
-  return JSON.parse(decoder.decode(bytes)) as RfsManifest;
+  return parseStored<RfsManifest>(decoder.decode(bytes));
 }
 
 async function writeManifest(adapter: RfsAdapter, dir: string, manifest: RfsManifest): Promise<void> {
-  await adapter.writeFile(manifestPath(dir), JSON.stringify(manifest, null, 2));
+  await adapter.writeFile(manifestPath(dir), stringifyStored(manifest, 2));
 }
 
 async function spaceExists(adapter: RfsAdapter, dir: string): Promise<boolean> {
   return adapter.exists(manifestPath(dir));
 }
 
+function commandLogPath(dir: string): string {
+  return joinPath(dir, RFS_COMMAND_LOG_FILENAME);
+}
+
+/**
+ * Each record starts on a new line (rather than ending one), so an append
+ * that follows a line torn by a crash still begins on a line of its own.
+ */
+function serializeCommandLog(records: RfsCommandLogRecord[]): string {
+  return records.map(record => '\n' + stringifyStored(record)).join('');
+}
+
+async function appendText(adapter: RfsAdapter, path: string, content: string): Promise<void> {
+  if (adapter.appendFile) {
+    await adapter.appendFile(path, content);
+    return;
+  }
+
+  // Adapter without appendFile: rewrite the whole file
+  const existing = (await adapter.exists(path)) ? decoder.decode(await adapter.readFile(path)) : '';
+  await adapter.writeFile(path, existing + content);
+}
+
+async function appendCommandLog(adapter: RfsAdapter, dir: string, records: RfsCommandLogRecord[]): Promise<void> {
+  await appendText(adapter, commandLogPath(dir), serializeCommandLog(records));
+}
+
+/**
+ * Read a space's command log in sequence order. A line cut short by a crash
+ * mid-append is skipped; if a sequence number appears twice (the manifest
+ * update of the first attempt was lost), the later record wins.
+ */
+async function readCommandLog(adapter: RfsAdapter, dir: string): Promise<RfsCommandLogRecord[]> {
+  const path = commandLogPath(dir);
+  if (!(await adapter.exists(path))) return [];
+
+  const bySeq = new Map<number, RfsCommandLogRecord>();
+  for (const line of decoder.decode(await adapter.readFile(path)).split('\n')) {
+    if (!line) continue;
+    try {
+      const record = parseStored<RfsCommandLogRecord>(line);
+      bySeq.set(record.seq, record);
+    } catch {
+      // Torn line
+    }
+  }
+  return [...bySeq.values()].sort((a, b) => a.seq - b.seq);
+}
+
+function buildLogPath(dir: string): string {
+  return joinPath(dir, RFS_BUILD_LOG_FILENAME);
+}
+
+/** Entries start on a new line, as in the command log */
+async function appendBuildLog(adapter: RfsAdapter, dir: string, entries: RfsLogEntry[]): Promise<void> {
+  await appendText(adapter, buildLogPath(dir), entries.map(entry => '\n' + stringifyStored(entry)).join(''));
+}
+
+async function readBuildLog(adapter: RfsAdapter, dir: string): Promise<RfsLogEntry[]> {
+  const path = buildLogPath(dir);
+  if (!(await adapter.exists(path))) return [];
+
+  const entries: RfsLogEntry[] = [];
+  for (const line of decoder.decode(await adapter.readFile(path)).split('\n')) {
+    if (!line) continue;
+    try {
+      entries.push(parseStored<RfsLogEntry>(line));
+    } catch {
+      // Torn line
+    }
+  }
+  return entries;
+}
+
+const LOG_LEVELS: RfsLogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+/** ctx.log for one onInit/onCommand run, handing every entry to `write` */
+function createLogger(phase: RfsLogEntry['phase'], write: (entry: RfsLogEntry) => void): RfsLogger {
+  const logAt = (level: RfsLogLevel): RfsLogFn => (message, data) => write({
+    level,
+    message,
+    ...(data !== undefined ? { data } : {}),
+    phase,
+    timestamp: new Date().toISOString(),
+  });
+  return { debug: logAt('debug'), info: logAt('info'), warn: logAt('warn'), error: logAt('error') };
+}
+
+/** Command records stored in the manifest by earlier versions, numbered from 1 by position */
+function legacyCommandRecords(manifest: RfsManifest): RfsCommandRecord[] {
+  return (manifest.commands ?? []).map(({ command, executedAt, result }, i) => ({
+    seq: i + 1,
+    command,
+    executedAt,
+    result,
+  }));
+}
+
+/** Content digest of space/, or of `spaceDir` (a staging copy) when given */
+function digestSpace(
+  adapter: RfsAdapter,
+  dataDir: string,
+  dependencies: RfsDependency[] = [],
+  spaceDir = joinPath(dataDir, RFS_SPACE_DIRNAME),
+): Promise<string> {
+  return computeContentDigest(adapter, spaceDir, dependencies.map(dep => dep.mountPath));
+}
+
+/** fileCount/byteSize of space/ (or `spaceDir`), skipping dependency mounts */
+function measureSpace(
+  adapter: RfsAdapter,
+  dataDir: string,
+  dependencies: RfsDependency[] = [],
+  spaceDir = joinPath(dataDir, RFS_SPACE_DIRNAME),
+): Promise<{ fileCount: number; byteSize: number }> {
+  return measureDirectory(adapter, spaceDir, dependencies.map(dep => dep.mountPath));
+}
+
+async function verifySpace(adapter: RfsAdapter, dataDir: string, manifest: RfsManifest): Promise<RfsVerifyResult> {
+  const actual = await digestSpace(adapter, dataDir, manifest.dependencies);
+  const expected = manifest.contentDigest;
+  // Spaces built before digests were recorded cannot be checked and are trusted
+  return { ok: expected === undefined || expected === actual, expected, actual };
+}
+
+/**
+ * Combine the caller's signal and timeout into the signal handed to onCommand.
+ * Call dispose() once the command settles to drop the timer and listener.
+ */
+function createCommandSignal(options?: RfsSendOptions): { signal: AbortSignal; dispose: () => void } {
+  const controller = new AbortController();
+  const external = options?.signal;
+  const onAbort = () => controller.abort(external!.reason);
+
+  if (external?.aborted) {
+    controller.abort(external.reason);
+  } else {
+    external?.addEventListener('abort', onAbort, { once: true });
+  }
+
+  const timeoutMs = options?.timeoutMs;
+  const timer = timeoutMs !== undefined
+    ? setTimeout(() => controller.abort(new Error(`Command timed out after ${timeoutMs}ms`)), timeoutMs)
+    : undefined;
+
+  return {
+    signal: controller.signal,
+    dispose() {
+      clearTimeout(timer);
+      external?.removeEventListener('abort', onAbort);
+    },
+  };
+}
+
+function abortReasonToError(reason: unknown): Error {
+  return reason instanceof Error ? reason : new Error('Operation aborted');
+}
+
+/**
+ * Resolve the absolute path a dependency mount points at
+ *
+ * `'*'` selects the whole space directory; any other name must be a key of
+ * the dependency's exports.
+ */
+function resolveExportTarget(
+  depDataDir: string,
+  exports: Record<string, string>,
+  exportName: string,
+  kind: string,
+): string {
+  const depSpaceDir = joinPath(depDataDir, RFS_SPACE_DIRNAME);
+  if (exportName === '*') return depSpaceDir;
+
+  const exportRel = exports[exportName];
+  if (exportRel === undefined) {
+    throw new Error(
+      `dep: export "${exportName}" not found in kind "${kind}". ` +
+      `Available exports: ${Object.keys(exports).join(', ')}`,
+    );
+  }
+  return exportRel === '.' ? depSpaceDir : joinPath(depSpaceDir, exportRel);
+}
+
+/** Dependency mount paths of a space, normalized relative to space/ */
+function mountPathSet(manifest: RfsManifest): Set<string> {
+  return new Set((manifest.dependencies ?? []).map(dep => normalizeMountPath(dep.mountPath)));
+}
+
+/**
+ * Reject labels that would not name a directory of their own under
+ * .radium-fs-snapshots/ (`..` would resolve to the data directory itself)
+ */
+function assertSnapshotLabel(operation: string, label: string): void {
+  if (typeof label !== 'string' || !label) {
+    throw new Error(`${operation}: label must be a non-empty string`);
+  }
+  if (label === '.' || label === '..' || label.includes('/') || label.startsWith(RFS_TEMP_PREFIX)) {
+    throw new Error(`${operation}: invalid label "${label}" (no "/", ".", "..", or "${RFS_TEMP_PREFIX}" prefix)`);
+  }
+}
+
+function buildSnapshotDir(dataDir: string, label: string): string {
+  return joinPath(dataDir, RFS_SNAPSHOTS_DIRNAME, encodeURIComponent(label));
+}
+
+/**
+ * Copy a directory tree file by file, skipping the given relative paths
+ * (dependency mounts, which are recreated as symlinks by the caller).
+ * Other symlinks are copied as links when the adapter can read them.
+ */
+async function copyTree(
+  adapter: RfsAdapter,
+  srcDir: string,
+  destDir: string,
+  skip: Set<string>,
+  relPath = '',
+): Promise<void> {
+  await adapter.mkdir(joinPath(destDir, relPath));
+
+  for (const name of await adapter.readDir(joinPath(srcDir, relPath))) {
+    const childRel = relPath ? relPath + '/' + name : name;
+    if (skip.has(childRel)) continue;
+
+    const linkTarget = adapter.readLink ? await adapter.readLink(joinPath(srcDir, childRel)) : null;
+    if (linkTarget !== null) {
+      await adapter.symlink(linkTarget, joinPath(destDir, childRel));
+      continue;
+    }
+
+    const stat = await adapter.stat(joinPath(srcDir, childRel));
+    if (stat.isDirectory) {
+      await copyTree(adapter, srcDir, destDir, skip, childRel);
+    } else {
+      await adapter.writeFile(joinPath(destDir, childRel), await adapter.readFile(joinPath(srcDir, childRel)));
+    }
+  }
+}
+
+/** Remove everything under a directory except the given relative paths (dependency mounts) */
+async function clearTree(adapter: RfsAdapter, dir: string, keep: Set<string>, relPath = ''): Promise<void> {
+  for (const name of await adapter.readDir(joinPath(dir, relPath))) {
+    const childRel = relPath ? relPath + '/' + name : name;
+    if (keep.has(childRel)) continue;
+
+    if ([...keep].some(path => path.startsWith(childRel + '/'))) {
+      await clearTree(adapter, dir, keep, childRel);
+    } else {
+      await adapter.remove(joinPath(dir, childRel), { recursive: true });
+    }
+  }
+}
+
+/**
+ * Finish a swap of space/ interrupted by a crash, or undo what is left of an
+ * unfinished command. The manifest is written before the swap, so a staging
+ * directory matching its content digest holds committed content and is
+ * swapped in; any other staging directory is dropped.
+ */
+async function recoverStaging(adapter: RfsAdapter, dataDir: string, manifest: RfsManifest): Promise<void> {
+  const spaceDir = joinPath(dataDir, RFS_SPACE_DIRNAME);
+  const stagingDir = joinPath(dataDir, RFS_STAGING_DIRNAME);
+  const previousDir = joinPath(dataDir, RFS_PREVIOUS_SPACE_DIRNAME);
+
+  const committed = manifest.contentDigest !== undefined &&
+    (await adapter.exists(stagingDir)) &&
+    (await digestSpace(adapter, dataDir, manifest.dependencies, stagingDir)) === manifest.contentDigest;
+  if (committed) {
+    if (await adapter.exists(spaceDir)) {
+      await adapter.remove(previousDir, { recursive: true });
+      await commitStaging(adapter, dataDir, stagingDir);
+    } else {
+      // Stopped between the two renames
+      await adapter.rename(stagingDir, spaceDir);
+      await adapter.remove(previousDir, { recursive: true });
+    }
+    return;
+  }
+
+  if (await adapter.exists(previousDir)) {
+    if (await adapter.exists(spaceDir)) {
+      await adapter.remove(previousDir, { recursive: true });
+    } else {
+      await adapter.rename(previousDir, spaceDir);
+    }
+  }
+  await adapter.remove(stagingDir, { recursive: true });
+}
+
+/**
+ * Replace space/ with the staging directory of a successful transactional
+ * command or revert (after the manifest describing it was written)
+ */
+async function commitStaging(adapter: RfsAdapter, dataDir: string, stagingDir: string): Promise<void> {
+  const spaceDir = joinPath(dataDir, RFS_SPACE_DIRNAME);
+  const previousDir = joinPath(dataDir, RFS_PREVIOUS_SPACE_DIRNAME);
+
+  await adapter.rename(spaceDir, previousDir);
+  await adapter.rename(stagingDir, spaceDir);
+  await adapter.remove(previousDir, { recursive: true });
+}
+
 function normalizeExports(raw: RfsInitResult['exports']): Record<string, string> {
   if (!raw) return { '.': '.' };
   if (typeof raw === 'string') return { '.': raw };
@@ -231,6 +601,19 @@ function createLocalApi(adapter: RfsAdapter, localDir: string): RfsLocalApi {
   };
 }
 
+/** A space being ensured, outermost first (used for cycle detection and event correlation) */
+interface EnsureFrame {
+  kind: string;
+  dataId: string;
+}
+
+/** parentDataId / rootDataId of init events, from the spaces being ensured above this one */
+function buildTreeFields(ancestors: EnsureFrame[], dataId: string): { parentDataId?: string; rootDataId: string } {
+  return ancestors.length > 0
+    ? { parentDataId: ancestors[ancestors.length - 1].dataId, rootDataId: ancestors[0].dataId }
+    : { rootDataId: dataId };
+}
+
 interface CreateSpaceApiParams {
   adapter: RfsAdapter;
   spaceDir: string;
@@ -242,13 +625,71 @@ interface CreateSpaceApiParams {
     parentLocalDepsDir: string | null,
     ensureOptions?: RfsEnsureOptions,
     extraRuntime?: Record<string, unknown>,
+    parentSpan?: RfsSpan,
   ) => Promise<{ space: RfsSpaceBase; dataDir: string }>;
   parentDataDir: string;
   deps: RfsDependency[];
+  /** Build slot of the parent, lent out while a dependency is ensured */
+  slot?: BuildSlot;
+  /** Called after each dependency is linked into space/ */
+  onMount?: (dependency: RfsDependency, depDataId: string, target: string) => void;
+  /** Tracer and span of the build; each mount gets an `rfs.dep` child span */
+  tracer?: RfsTracer;
+  span?: RfsSpan;
 }
 
 function createSpaceApi<TRuntime>(params: CreateSpaceApiParams): RfsSpaceApi<TRuntime> {
-  const { adapter, spaceDir, localDir, runtime, ensureInternal, parentDataDir, deps } = params;
+  const { adapter, spaceDir, localDir, runtime, ensureInternal, parentDataDir, deps, slot, onMount } = params;
+  const tracer = params.tracer ?? noopTracer;
+
+  /** Ensure a dependency and link it at space/{mountPath}; the caller records it */
+  async function mount(
+    mountPath: string,
+    kind: RfsKind<unknown, unknown, unknown>,
+    input: unknown,
+    options?: RfsDepOptions,
+  ): Promise<{ targetPath: string; dependency: RfsDependency }> {
+    const scope = options?.scope ?? 'shared';
+    const exportName = options?.export ?? '.';
+
+    // Determine where the dependency itself is stored
+    const parentLocalDepsDir = scope === 'local'
+      ? joinPath(parentDataDir, RFS_LOCAL_DEPS_DIRNAME)
+      : null;
+
+    const attributes = { 'rfs.kind': kind.kind, 'rfs.mount_path': mountPath, 'rfs.scope': scope };
+    return withSpan(tracer, 'rfs.dep', attributes, params.span, async depSpan => {
+      const ensureDep = () => ensureInternal(
+        kind,
+        input,
+        parentLocalDepsDir,
+        undefined,
+        options?.extraRuntime,
+        depSpan,
+      );
+      const { space: depSpace, dataDir: depDataDir } = slot
+        ? await slot.yieldWhile(ensureDep)
+        : await ensureDep();
+      depSpan.setAttribute('rfs.data_id', depSpace.dataId);
+
+      // Resolve the export path
+      const targetPath = resolveExportTarget(depDataDir, depSpace.manifest.exports, exportName, kind.kind);
+
+      // Create symlink at space/{mountPath} using relative path
+      const linkPath = joinPath(spaceDir, mountPath);
+      const relativeTarget = computeRelativePath(linkPath, targetPath);
+      await adapter.symlink(relativeTarget, linkPath);
+
+      const dependency: RfsDependency = {
+        mountPath,
+        origin: depSpace.manifest.origin,
+        scope,
+        export: exportName === '.' ? undefined : exportName,
+      };
+      onMount?.(dependency, depSpace.dataId, targetPath);
+      return { targetPath, dependency };
+    });
+  }
 
   return {
     get path() { return spaceDir; },
@@ -262,52 +703,60 @@ function createSpaceApi<TRuntime>(params: CreateSpaceApiParams): RfsSpaceApi<TRu
       input: TDepInput,
       options?: RfsDepOptions,
     ): Promise<string> {
-      const scope = options?.scope ?? 'shared';
-      const exportName = options?.export ?? '.';
+      const { targetPath, dependency } = await mount(
+        mountPath,
+        kind as RfsKind<unknown, unknown, unknown>,
+        input,
+        options,
+      );
 
-      // Determine where the dependency itself is stored
-      const parentLocalDepsDir = scope === 'local'
-        ? joinPath(parentDataDir, RFS_LOCAL_DEPS_DIRNAME)
-        : null;
+      // Record dependency
+      deps.push(dependency);
 
-      const { space: depSpace, dataDir: depDataDir } = await ensureInternal(
-        kind,
-        input as TDepInput,
-        parentLocalDepsDir,
-        undefined,
-        options?.extraRuntime,
-      );
+      return targetPath;
+    },
 
-      // Resolve the export path
-      let targetPath: string;
-      if (exportName === '*') {
-        targetPath = joinPath(depDataDir, RFS_SPACE_DIRNAME);
-      } else {
-        const exportRel = depSpace.manifest.exports[exportName];
-        if (exportRel === undefined) {
-          throw new Error(
-            `dep: export "${exportName}" not found in kind "${kind.kind}". ` +
-            `Available exports: ${Object.keys(depSpace.manifest.exports).join(', ')}`,
-          );
+    async deps<TInputs extends Record<string, unknown>>(
+      specs: RfsDepSpecs<TInputs>,
+      options?: RfsDepsOptions,
+    ): Promise<{ [K in keyof TInputs]: string }> {
+      const concurrency = options?.concurrency ?? Infinity;
+      if (!(concurrency === Infinity || (Number.isInteger(concurrency) && concurrency > 0))) {
+        throw new Error('deps: concurrency must be a positive integer or Infinity');
+      }
+
+      const entries = Object.entries(specs) as [string, readonly [RfsKind<unknown, unknown, unknown>, unknown, RfsDepOptions?]][];
+      const mounted: ({ targetPath: string; dependency: RfsDependency } | undefined)[] = new Array(entries.length);
+      let next = 0;
+      let failure: { error: unknown } | undefined;
+
+      // Each worker takes the next entry until all are started or one has failed
+      async function worker(): Promise<void> {
+        while (next < entries.length && !failure) {
+          const index = next++;
+          const [mountPath, [kind, input, depOptions]] = entries[index];
+          try {
+            mounted[index] = await mount(mountPath, kind, input, depOptions);
+          } catch (err) {
+            failure ??= { error: err };
+          }
         }
-        const depSpaceDir = joinPath(depDataDir, RFS_SPACE_DIRNAME);
-        targetPath = exportRel === '.' ? depSpaceDir : joinPath(depSpaceDir, exportRel);
       }
 
-      // Create symlink at space/{mountPath} using relative path
-      const linkPath = joinPath(spaceDir, mountPath);
-      const relativeTarget = computeRelativePath(linkPath, targetPath);
-      await adapter.symlink(relativeTarget, linkPath);
+      const workerCount = Math.min(concurrency, entries.length);
+      await Promise.all(Array.from({ length: workerCount }, worker));
 
-      // Record dependency
-      deps.push({
-        mountPath,
-        origin: depSpace.manifest.origin,
-        scope,
-        export: exportName === '.' ? undefined : exportName,
+      // Record in spec order so the manifest does not depend on completion order
+      const paths: Record<string, string> = {};
+      entries.forEach(([mountPath], index) => {
+        const result = mounted[index];
+        if (!result) return;
+        deps.push(result.dependency);
+        paths[mountPath] = result.targetPath;
       });
 
-      return targetPath;
+      if (failure) throw failure.error;
+      return paths as { [K in keyof TInputs]: string };
     },
   };
 }
@@ -398,9 +847,12 @@ async function readDirRecursive(
  * ```
  */
 export function createStore(options: RfsStoreOptions): RfsStore {
-  const { adapter, locker } = options;
+  const { adapter } = options;
+  const locker = options.locker ?? memoryLocker();
+  const tracer = options.tracer ?? noopTracer;
   const root = options.root;
   const globalRuntime = options.runtime ?? {};
+  const canonicalOptions: RfsCanonicalOptions = { unsupported: options.strictInputs ? 'throw' : 'null' };
 
   // Event system
   const globalListeners = new Set<(event: RfsEvent) => void>();
@@ -409,12 +861,331 @@ export function createStore(options: RfsStoreOptions): RfsStore {
   const commandListeners = new Map<string, Map<string, Set<(e: unknown) => void>>>();
   const customListeners = new Map<string, Set<(payload: unknown) => void>>();
 
+  // Kinds seen by this store (keyed by kind name), used to rebuild from an origin alone
+  const kinds = new Map<string, RfsAnyKind>();
+  for (const kind of options.kinds ?? []) {
+    kinds.set(kind.kind, kind);
+  }
+
+  /** A kind seen by this store, typed to rebuild spaces from their stored origin */
+  function knownKind(name: string): UntypedKind | undefined {
+    return kinds.get(name) as UntypedKind | undefined;
+  }
+
+  /**
+   * Run onInit and every recorded command of a space in scratchDir, comparing
+   * each result with the record and the final state with the manifest
+   */
+  async function replayRecords<TInput, TCommand, TRuntime>(
+    kind: RfsKind<TInput, TCommand, TRuntime>,
+    dataId: string,
+    manifest: RfsManifest,
+    records: RfsCommandLogRecord<TCommand>[],
+    scratchDir: string,
+  ): Promise<RfsReplayResult> {
+    const input = manifest.origin.input as TInput;
+    const scratchSpaceDir = joinPath(scratchDir, RFS_SPACE_DIRNAME);
+    const scratchLocalDir = joinPath(scratchDir, RFS_LOCAL_DIRNAME);
+    await adapter.mkdir(scratchSpaceDir);
+    await adapter.mkdir(scratchLocalDir);
+
+    const signal = new AbortController().signal;
+    const emit = () => { /* replays stay silent */ };
+    const deps: RfsDependency[] = [];
+
+    const scratchSpaceApi = createSpaceApi<TRuntime>({
+      adapter,
+      spaceDir: scratchSpaceDir,
+      localDir: scratchLocalDir,
+      runtime: globalRuntime,
+      ensureInternal: (depKind, depInput, parentLocalDepsDir, depEnsureOpts, depExtraRuntime) =>
+        ensureInternal(depKind, depInput, parentLocalDepsDir, depEnsureOpts, depExtraRuntime, [
+          { kind: kind.kind, dataId },
+        ]),
+      parentDataDir: scratchDir,
+      deps,
+    });
+    if (kind.dependencies) {
+      await scratchSpaceApi.deps(staticDepSpecs(kind.dependencies(input)));
+    }
+
+    const initResult = await kind.onInit({
+      input,
+      space: scratchSpaceApi,
+      signal,
+      emit,
+      log: createLogger('init', emit),
+    });
+    let exports = normalizeExports(initResult?.exports);
+    let metadata = initResult?.metadata ?? {};
+
+    const divergences: RfsReplayDivergence[] = [];
+    const compare = (field: 'exports' | 'metadata', expected: unknown, actual: unknown, seq?: number) => {
+      if (canonicalStringify(expected) !== canonicalStringify(actual)) {
+        divergences.push({ ...(seq !== undefined ? { seq } : {}), field, expected, actual });
+      }
+    };
+
+    // Replayed states that revert records return to, by sequence number
+    const revertTargets = new Set(records.flatMap(record => 'revert' in record ? [record.toSeq] : []));
+    const states = new Map<number, { exports: Record<string, string>; metadata: Record<string, unknown>; dir: string }>();
+    const mounts = new Set(deps.map(dep => normalizeMountPath(dep.mountPath)));
+    const saveState = async (seq: number) => {
+      if (!revertTargets.has(seq)) return;
+      const dir = joinPath(scratchDir, RFS_SNAPSHOTS_DIRNAME, String(seq));
+      await copyTree(adapter, scratchSpaceDir, dir, mounts);
+      states.set(seq, { exports, metadata, dir });
+    };
+    await saveState(0);
+
+    let replayed = 0;
+    for (const record of records) {
+      if ('revert' in record) {
+        const state = states.get(record.toSeq);
+        if (!state) {
+          const message = `snapshot "${record.revert}" was taken at seq ${record.toSeq}, which was not replayed`;
+          divergences.push({ seq: record.seq, field: 'error', expected: undefined, actual: message });
+          return { ok: false, replayed, divergences };
+        }
+        await clearTree(adapter, scratchSpaceDir, mounts);
+        await copyTree(adapter, state.dir, scratchSpaceDir, new Set());
+        exports = state.exports;
+        metadata = state.metadata;
+        await saveState(record.seq);
+        continue;
+      }
+
+      let result: RfsCommandResult;
+      try {
+        result = await kind.onCommand!({
+          command: record.command,
+          current: { exports, metadata },
+          space: createCommandSpaceApi(adapter, scratchSpaceDir, scratchLocalDir, globalRuntime as TRuntime),
+          signal,
+          emit,
+          log: createLogger('command', emit),
+        });
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        divergences.push({ seq: record.seq, field: 'error', expected: undefined, actual: message });
+        return { ok: false, replayed, divergences };
+      }
+      replayed++;
+
+      exports = result?.exports ? normalizeExports(result.exports) : exports;
+      metadata = result?.metadata ?? metadata;
+      if (record.result) {
+        compare('exports', record.result.exports, exports, record.seq);
+        compare('metadata', record.result.metadata, metadata, record.seq);
+      }
+      await saveState(record.seq);
+    }
+
+    compare('exports', manifest.exports, exports);
+    compare('metadata', manifest.metadata, metadata);
+    if (manifest.contentDigest !== undefined) {
+      const actualDigest = await digestSpace(adapter, scratchDir, deps);
+      if (actualDigest !== manifest.contentDigest) {
+        divergences.push({ field: 'contentDigest', expected: manifest.contentDigest, actual: actualDigest });
+      }
+    }
+
+    return { ok: divergences.length === 0, replayed, divergences };
+  }
+
+  // Temp directories of builds currently in flight (never collected by gc)
+  const activeTempDirs = new Set<string>();
+
+  // Store-wide onInit limit (no scheduler means builds never queue)
+  const concurrency = options.concurrency ?? Infinity;
+  if (!(concurrency === Infinity || (Number.isInteger(concurrency) && concurrency > 0))) {
+    throw new Error('createStore: concurrency must be a positive integer or Infinity');
+  }
+  const scheduler = concurrency === Infinity ? null : createBuildScheduler(concurrency);
+
+  // Lowest ctx.log level kept in build logs (null: build logs are off)
+  const buildLogLevel: RfsLogLevel | null = options.buildLog === true
+    ? 'debug'
+    : options.buildLog ? options.buildLog.level ?? 'debug' : null;
+
+  // Commands run one at a time per dataId: FIFO in-process, then through the store locker.
+  // Each one is also persisted until it settles (see "Pending commands" below).
+  const commandQueue = memoryLocker();
+  const commandScope = createCommandScope();
+
+  // Spaces each build in flight is waiting on, keyed by the dataId of the
+  // waiting build. The ancestor check only sees a cycle within one chain of
+  // dep() calls; two parallel branches (or concurrent ensures) can each hold
+  // one lock and wait on the other's, which closes a loop here instead.
+  const waitingOn = new Map<string, EnsureFrame[]>();
+
+  /** Spaces leading from a build to another through waits, or null if none does */
+  function findWaitPath(from: string, to: string, seen = new Set<string>()): EnsureFrame[] | null {
+    if (from === to) return [];
+    if (seen.has(from)) return null;
+    seen.add(from);
+    for (const next of waitingOn.get(from) ?? []) {
+      const rest = findWaitPath(next.dataId, to, seen);
+      if (rest) return [next, ...rest];
+    }
+    return null;
+  }
+
+  /**
+   * Record that the innermost ancestor waits on a space, unless that space
+   * is (transitively) waiting on it already
+   *
+   * @returns Function removing the wait
+   */
+  function waitOn(ancestors: EnsureFrame[], target: EnsureFrame): () => void {
+    const waiter = ancestors[ancestors.length - 1];
+    if (!waiter) return () => {};
+
+    const path = findWaitPath(target.dataId, waiter.dataId);
+    if (path) throw new RfsCycleError([waiter, target, ...path]);
+
+    const targets = waitingOn.get(waiter.dataId) ?? [];
+    targets.push(target);
+    waitingOn.set(waiter.dataId, targets);
+    return () => {
+      targets.splice(targets.indexOf(target), 1);
+      if (targets.length === 0) waitingOn.delete(waiter.dataId);
+    };
+  }
+
+  /** Reject a call that would wait on the command lock its own onCommand holds */
+  function assertNotInCommand(dataId: string, operation: string): void {
+    if (commandScope.has(dataId)) {
+      throw new Error(
+        `${operation}: called from inside onCommand of space ${dataId}, ` +
+        'which would wait for itself. Run it after send() settles',
+      );
+    }
+  }
+
+  /**
+   * Wait for earlier commands on this space (this process, then other
+   * processes through the store locker)
+   *
+   * @returns Function releasing both locks
+   */
+  async function acquireCommandLock(
+    dataId: string,
+    signal?: AbortSignal,
+    span?: RfsSpan,
+  ): Promise<() => Promise<void>> {
+    return withSpan(tracer, 'rfs.lock', { 'rfs.lock_key': `cmd:${dataId}` }, span, async () => {
+      const queueHandle = await commandQueue.acquire(dataId, signal);
+      try {
+        const lockHandle = await locker.acquire(`cmd:${dataId}`, signal);
+        return async () => {
+          await lockHandle.release();
+          await queueHandle.release();
+        };
+      } catch (err) {
+        await queueHandle.release();
+        throw err;
+      }
+    });
+  }
+
+  /** locker.acquire() under an `rfs.lock` span */
+  function acquireLock(key: string, signal: AbortSignal | undefined, span: RfsSpan): Promise<RfsLockHandle> {
+    return withSpan(tracer, 'rfs.lock', { 'rfs.lock_key': key }, span, () => locker.acquire(key, signal));
+  }
+
+  /** readManifest() under an `rfs.manifest.read` span */
+  function tracedReadManifest(dir: string, span: RfsSpan): Promise<RfsManifest> {
+    return withSpan(tracer, 'rfs.manifest.read', { 'rfs.path': dir }, span, () => readManifest(adapter, dir));
+  }
+
+  /** writeManifest() under an `rfs.manifest.write` span */
+  function tracedWriteManifest(dir: string, manifest: RfsManifest, span: RfsSpan): Promise<void> {
+    return withSpan(tracer, 'rfs.manifest.write', { 'rfs.path': dir }, span, () => writeManifest(adapter, dir, manifest));
+  }
+
+  // -------------------------------------------------------------------------
+  // Pending commands
+  //
+  // {root}/.radium-fs-pending/{shard}/{dataId}/{id}.json
+  //
+  // One file per command accepted by send() and not settled yet, so other
+  // processes list it and one left behind by a process that exited can be
+  // resumed. The sender holds the `pending:{id}` lock until the command
+  // settles: an entry whose lock is free has no sender left.
+  // -------------------------------------------------------------------------
+
+  let pendingCounter = 0;
+
+  /** Entry ids sort in send order within a process (and roughly across processes) */
+  function newPendingId(): string {
+    const counter = (pendingCounter++ % 1_000_000).toString().padStart(6, '0');
+    return `${Date.now().toString().padStart(15, '0')}-${counter}-${Math.random().toString(36).slice(2, 10)}`;
+  }
+
+  function pendingEntryPath(dataId: string, id: string): string {
+    return joinPath(root, RFS_PENDING_DIRNAME, getShard(dataId), dataId, id + '.json');
+  }
+
+  async function writePendingEntry(dataId: string, id: string, pending: RfsPendingCommand<unknown>): Promise<void> {
+    await adapter.writeFile(pendingEntryPath(dataId, id), stringifyStored(pending));
+  }
+
+  async function readPendingEntries(dataId: string): Promise<{ id: string; pending: RfsPendingCommand<unknown> }[]> {
+    const dir = joinPath(root, RFS_PENDING_DIRNAME, getShard(dataId), dataId);
+    let names: string[];
+    try {
+      names = await adapter.readDir(dir);
+    } catch {
+      return [];
+    }
+
+    const entries: { id: string; pending: RfsPendingCommand<unknown> }[] = [];
+    for (const name of names.filter(name => name.endsWith('.json')).sort()) {
+      try {
+        const text = decoder.decode(await adapter.readFile(joinPath(dir, name)));
+        entries.push({ id: name.slice(0, -'.json'.length), pending: parseStored<RfsPendingCommand<unknown>>(text) });
+      } catch {
+        // Settled while listing
+      }
+    }
+    return entries;
+  }
+
+  /** Take a lock only if it can be had without waiting for its holder */
+  async function tryAcquireLock(key: string): Promise<RfsLockHandle | null> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), 0);
+    try {
+      return await locker.acquire(key, controller.signal);
+    } catch {
+      return null;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
   function emitGlobal(event: RfsEvent): void {
     for (const handler of globalListeners) {
       try { handler(event); } catch { /* listener errors should not break the engine */ }
     }
   }
 
+  /** ctx.log of a space: every entry becomes a `log` event; `kept` collects those the build log keeps */
+  function createSpaceLogger(
+    kind: string,
+    dataId: string,
+    phase: RfsLogEntry['phase'],
+    kept: RfsLogEntry[],
+  ): RfsLogger {
+    return createLogger(phase, entry => {
+      emitGlobal({ type: 'log', kind, dataId, ...entry });
+      if (buildLogLevel && LOG_LEVELS.indexOf(entry.level) >= LOG_LEVELS.indexOf(buildLogLevel)) {
+        kept.push(entry);
+      }
+    });
+  }
+
   function emitCommand(dataId: string, eventType: string, event: unknown): void {
     const map = commandListeners.get(dataId);
     if (map) {
@@ -446,54 +1217,153 @@ export function createStore(options: RfsStoreOptions): RfsStore {
     localDepsDir: string | null,
     ensureOptions?: RfsEnsureOptions,
     extraRuntime?: Record<string, unknown>,
+    ancestors: EnsureFrame[] = [],
+    parentSpan?: RfsSpan,
   ): Promise<{ space: RfsSpaceBase; dataDir: string }> {
-    const inputRecord = (input ?? {}) as Record<string, unknown>;
-    const dataId = await computeDataId(adapter, kind.kind, inputRecord, kind.cacheKey as ((input: unknown) => Record<string, unknown>) | undefined);
-
-    // Determine the data directory (shared vs local-scoped)
-    const dataDir = localDepsDir
-      ? joinPath(localDepsDir, kind.kind, getShard(dataId), dataId)
-      : buildDataDir(root, kind.kind, dataId);
-
-    const signal = ensureOptions?.signal;
-    const useCache = ensureOptions?.cache !== false;
+    return withSpan(tracer, 'rfs.ensure', { 'rfs.kind': kind.kind }, parentSpan, span =>
+      ensureSpace(kind, input, localDepsDir, ensureOptions, extraRuntime, ancestors, span));
+  }
 
-    let lockHandle: RfsLockHandle | undefined;
+  /** Body of ensureInternal, run inside its `rfs.ensure` span */
+  async function ensureSpace<TInput, TCommand, TRuntime>(
+    kind: RfsKind<TInput, TCommand, TRuntime>,
+    input: TInput,
+    localDepsDir: string | null,
+    ensureOptions: RfsEnsureOptions | undefined,
+    extraRuntime: Record<string, unknown> | undefined,
+    ancestors: EnsureFrame[],
+    span: RfsSpan,
+  ): Promise<{ space: RfsSpaceBase; dataDir: string }> {
+    kinds.set(kind.kind, kind);
 
-    try {
-      // Acquire lock if locker is provided
-      if (locker) {
-        lockHandle = await locker.acquire(dataId, signal);
+    // Validate and normalize the input so equivalent inputs share a dataId
+    if (kind.inputSchema) {
+      try {
+        input = await validateSchema(kind.inputSchema, input, `input for kind "${kind.kind}"`) as TInput;
+      } catch (err) {
+        // No normalized input to derive the dataId from; report the raw one
+        // (empty if even that cannot be hashed, e.g. a cyclic input)
+        const rawInput = (input ?? {}) as Record<string, unknown>;
+        const rawDataId = await computeDataId(adapter, kind.kind, rawInput, undefined, kind.version)
+          .catch(() => '');
+        const error = err instanceof Error ? err : new Error(String(err));
+        const errorCtx = {
+          kind: kind.kind,
+          dataId: rawDataId,
+          input: rawInput,
+          error,
+          ...buildTreeFields(ancestors, rawDataId),
+        };
+        emitGlobal({ type: 'init:error', ...errorCtx });
+        ensureOptions?.onError?.(errorCtx);
+        throw err;
       }
+    }
+
+    const inputRecord = (input ?? {}) as Record<string, unknown>;
+    const dataId = await computeDataId(
+      adapter,
+      kind.kind,
+      inputRecord,
+      kind.cacheKey as ((input: unknown) => Record<string, unknown>) | undefined,
+      kind.version,
+      canonicalOptions,
+    );
+    span.setAttribute('rfs.data_id', dataId);
+
+    // A space that (transitively) depends on itself would wait on its own lock forever
+    const cycleStart = ancestors.findIndex(frame => frame.dataId === dataId);
+    if (cycleStart !== -1) {
+      throw new RfsCycleError([...ancestors.slice(cycleStart), { kind: kind.kind, dataId }]);
+    }
+    const stack = [...ancestors, { kind: kind.kind, dataId }];
+    const tree = buildTreeFields(ancestors, dataId);
+
+    // Determine the data directory (shared vs local-scoped)
+    const dataDir = localDepsDir
+      ? joinPath(localDepsDir, kind.kind, getShard(dataId), dataId)
+      : buildDataDir(root, kind.kind, dataId);
+
+    const signal = ensureOptions?.signal;
+    const useCache = ensureOptions?.cache !== false;
+    const verify = ensureOptions?.verify === true;
+
+    const priority = ensureOptions?.priority ?? 0;
+
+    let lockHandle: RfsLockHandle | undefined;
+    let releaseCommandLock: (() => Promise<void>) | undefined;
+    let slot: BuildSlot | undefined;
+    const stopWaiting = waitOn(ancestors, { kind: kind.kind, dataId });
+
+    try {
+      const lockStart = Date.now();
+      lockHandle = await acquireLock(dataId, signal, span);
 
       // Check abort
       if (signal?.aborted) {
         throw new Error('Operation aborted');
       }
 
-      // Cache check
       const exists = await spaceExists(adapter, dataDir);
+      let manifest = exists ? await tracedReadManifest(dataDir, span) : null;
+
+      // The space may be rebuilt: let a command in flight finish first (it
+      // would otherwise look modified to verify, and lose its space/), and
+      // keep further commands out until the rebuild is done
+      if (manifest && (!useCache || verify || manifest.invalidatedAt)) {
+        assertNotInCommand(dataId, 'ensure');
+        releaseCommandLock = await acquireCommandLock(dataId, signal, span);
+        manifest = await tracedReadManifest(dataDir, span);
+      }
+      const lockWaitMs = Date.now() - lockStart;
 
-      if (exists && useCache) {
-        const manifest = await readManifest(adapter, dataDir);
+      // Cache check (an invalidated or, with verify, modified space counts as a miss)
+      const cacheHit = manifest !== null &&
+        useCache &&
+        !manifest.invalidatedAt &&
+        (!verify || (await verifySpace(adapter, dataDir, manifest)).ok);
+      span.setAttribute('rfs.cached', cacheHit);
+
+      if (manifest && cacheHit) {
         const spaceDir = joinPath(dataDir, RFS_SPACE_DIRNAME);
         const space = buildRfsSpaceBase(dataDir, spaceDir, manifest, kind.kind, dataId);
 
         // Emit cached event
-        const cachedCtx = { kind: kind.kind, dataId, input: inputRecord, path: spaceDir };
+        const cachedCtx = { kind: kind.kind, dataId, input: inputRecord, path: spaceDir, ...tree };
         emitGlobal({ type: 'init:cached', ...cachedCtx });
         ensureOptions?.onCached?.(cachedCtx);
 
         return { space, dataDir };
       }
 
-      // cache: false — remove old space before rebuild
-      if (exists && !useCache) {
+      // cache: false, invalidated or failed verification — remove old space before rebuild
+      if (exists) {
         await adapter.remove(dataDir, { recursive: true });
       }
 
+      // Wait for a build slot once the store-wide limit is reached
+      if (scheduler) {
+        if (!scheduler.tryAcquire()) {
+          const queuedCtx = { kind: kind.kind, dataId, input: inputRecord, priority, ...tree };
+          emitGlobal({ type: 'init:queued', ...queuedCtx });
+          ensureOptions?.onQueued?.(queuedCtx);
+
+          try {
+            await scheduler.acquire(priority, signal);
+          } catch (err) {
+            const error = err instanceof Error ? err : new Error(String(err));
+            const errorCtx = { kind: kind.kind, dataId, input: inputRecord, error, ...tree };
+            emitGlobal({ type: 'init:error', ...errorCtx });
+            ensureOptions?.onError?.(errorCtx);
+            throw err;
+          }
+        }
+        slot = holdBuildSlot(scheduler, priority);
+      }
+
       // Cache miss — build
-      const startCtx = { kind: kind.kind, dataId, input: inputRecord };
+      const buildStart = Date.now();
+      const startCtx = { kind: kind.kind, dataId, input: inputRecord, ...tree };
       emitGlobal({ type: 'init:start', ...startCtx });
       ensureOptions?.onStart?.(startCtx);
 
@@ -505,10 +1375,12 @@ export function createStore(options: RfsStoreOptions): RfsStore {
       const tempSpaceDir = joinPath(tempDir, RFS_SPACE_DIRNAME);
       const tempLocalDir = joinPath(tempDir, RFS_LOCAL_DIRNAME);
 
-      await adapter.mkdir(tempSpaceDir);
-      await adapter.mkdir(tempLocalDir);
+      activeTempDirs.add(tempDir);
 
       try {
+        await adapter.mkdir(tempSpaceDir);
+        await adapter.mkdir(tempLocalDir);
+
         // Build the space API for onInit
         const deps: RfsDependency[] = [];
         const mergedRuntime = extraRuntime
@@ -520,13 +1392,42 @@ export function createStore(options: RfsStoreOptions): RfsStore {
           spaceDir: tempSpaceDir,
           localDir: tempLocalDir,
           runtime: mergedRuntime as Record<string, unknown>,
-          ensureInternal: (depKind, depInput, parentLocalDepsDir, depEnsureOpts, depExtraRuntime) =>
-            ensureInternal(depKind, depInput, parentLocalDepsDir, depEnsureOpts, depExtraRuntime),
+          ensureInternal: (depKind, depInput, parentLocalDepsDir, depEnsureOpts, depExtraRuntime, depSpan) =>
+            ensureInternal(
+              depKind,
+              depInput,
+              parentLocalDepsDir,
+              { ...depEnsureOpts, priority: depEnsureOpts?.priority ?? priority },
+              depExtraRuntime,
+              stack,
+              depSpan,
+            ),
           parentDataDir: tempDir,
           deps,
+          slot,
+          tracer,
+          span,
+          onMount: (dependency, depDataId, target) => emitGlobal({
+            type: 'dep:mount',
+            kind: kind.kind,
+            dataId,
+            rootDataId: tree.rootDataId,
+            mountPath: dependency.mountPath,
+            scope: dependency.scope,
+            ...(dependency.export ? { export: dependency.export } : {}),
+            depKind: dependency.origin.kind,
+            depDataId,
+            target,
+          }),
         });
 
+        // Static dependencies are mounted before onInit can use them
+        if (kind.dependencies) {
+          await spaceApi.deps(staticDepSpecs(kind.dependencies(input as TInput)));
+        }
+
         // Build onInit context
+        const logEntries: RfsLogEntry[] = [];
         const initContext: RfsOnInitContext<TInput, TRuntime> = {
           input: input as TInput,
           space: spaceApi,
@@ -536,6 +1437,7 @@ export function createStore(options: RfsStoreOptions): RfsStore {
             emitGlobal(event);
             emitCustom(dataId, payload);
           },
+          log: createSpaceLogger(kind.kind, dataId, 'init', logEntries),
         };
 
         // Execute onInit
@@ -544,6 +1446,11 @@ export function createStore(options: RfsStoreOptions): RfsStore {
         // Normalize exports
         const exportsMap = normalizeExports(result?.exports);
         const metadata = result?.metadata ?? {};
+        const stats: RfsBuildStats = {
+          durationMs: Date.now() - buildStart,
+          lockWaitMs,
+          ...(await measureSpace(adapter, tempDir, deps)),
+        };
 
         // Build manifest
         const now = new Date().toISOString();
@@ -551,6 +1458,7 @@ export function createStore(options: RfsStoreOptions): RfsStore {
           kind: kind.kind,
           input: inputRecord,
           ...(kind.cacheKey ? { cacheKey: kind.cacheKey(input as TInput) as Record<string, unknown> } : {}),
+          ...(kind.version !== undefined ? { version: kind.version } : {}),
         };
 
         const manifest: RfsManifest = {
@@ -559,12 +1467,17 @@ export function createStore(options: RfsStoreOptions): RfsStore {
           exports: exportsMap,
           dependencies: deps.length > 0 ? deps : undefined,
           metadata,
+          contentDigest: await digestSpace(adapter, tempDir, deps),
+          stats,
           createdAt: now,
           updatedAt: now,
         };
 
-        // Write manifest
-        await writeManifest(adapter, tempDir, manifest);
+        // Write build log and manifest
+        if (logEntries.length > 0) {
+          await appendBuildLog(adapter, tempDir, logEntries);
+        }
+        await tracedWriteManifest(tempDir, manifest, span);
 
         // Atomic rename temp → final
         try {
@@ -582,7 +1495,12 @@ export function createStore(options: RfsStoreOptions): RfsStore {
         }
 
         // Read the final manifest (might be ours or the concurrent winner's)
-        const finalManifest = await readManifest(adapter, dataDir);
+        const finalManifest = await tracedReadManifest(dataDir, span);
+
+        // Local-scope spaces are indexed once their owner reaches its final path
+        if (!localDepsDir) {
+          await indexDependents(dataDir, finalManifest);
+        }
         const finalSpaceDir = joinPath(dataDir, RFS_SPACE_DIRNAME);
         const space = buildRfsSpaceBase(dataDir, finalSpaceDir, finalManifest, kind.kind, dataId);
 
@@ -594,6 +1512,8 @@ export function createStore(options: RfsStoreOptions): RfsStore {
           path: finalSpaceDir,
           exports: resolveAbsoluteExports(finalSpaceDir, finalManifest.exports),
           metadata: finalManifest.metadata,
+          stats: finalManifest.stats ?? stats,
+          ...tree,
         };
         emitGlobal({ type: 'init:done', ...doneCtx });
         ensureOptions?.onDone?.(doneCtx);
@@ -607,13 +1527,18 @@ export function createStore(options: RfsStoreOptions): RfsStore {
 
         // Emit error event
         const error = err instanceof Error ? err : new Error(String(err));
-        const errorCtx = { kind: kind.kind, dataId, input: inputRecord, error };
+        const errorCtx = { kind: kind.kind, dataId, input: inputRecord, error, ...tree };
         emitGlobal({ type: 'init:error', ...errorCtx });
         ensureOptions?.onError?.(errorCtx);
 
         throw err;
+      } finally {
+        activeTempDirs.delete(tempDir);
       }
     } finally {
+      stopWaiting();
+      await slot?.release();
+      if (releaseCommandLock) await releaseCommandLock();
       if (lockHandle) {
         await lockHandle.release();
       }
@@ -645,104 +1570,341 @@ export function createStore(options: RfsStoreOptions): RfsStore {
   // Build RfsSpace with optional command support
   // -------------------------------------------------------------------------
 
-  function buildRfsSpace<TCommand>(
+  function buildRfsSpace<TCommand, TEvent>(
     dataDir: string,
     spaceDir: string,
     manifest: RfsManifest,
-    kind: RfsKind<unknown, TCommand, unknown>,
+    kind: RfsKind<unknown, TCommand, unknown, TEvent>,
     dataId: string,
-  ): RfsSpace<TCommand> {
+  ): RfsSpace<TCommand, TEvent> {
     const base = buildRfsSpaceBase(dataDir, spaceDir, manifest, kind.kind, dataId);
 
     if (!kind.onCommand) {
-      return base as RfsSpace<TCommand>;
+      return base as RfsSpace<TCommand, TEvent>;
     }
 
-    // Add command capabilities
-    const commands: RfsSpaceWithCommands<TCommand> = {
-      async send(command: TCommand): Promise<{ exports: Record<string, string>; metadata: Record<string, unknown> }> {
+    /**
+     * Queue, run, and record a validated command. `resumed` is the pending
+     * entry of an exited sender, whose lock the caller already holds.
+     */
+    async function runCommand(
+      command: TCommand,
+      sendOptions: RfsSendOptions | undefined,
+      resumed?: { id: string; lock: RfsLockHandle; enqueuedAt: string },
+    ): Promise<{ exports: Record<string, string>; metadata: Record<string, unknown> }> {
+      const { signal, dispose } = createCommandSignal(sendOptions);
+      const span = tracer.startSpan('rfs.command', { 'rfs.kind': kind.kind, 'rfs.data_id': dataId });
+      const pendingId = resumed?.id ?? newPendingId();
+      const pending: RfsPendingCommand<unknown> = {
+        command,
+        status: 'queued',
+        enqueuedAt: resumed?.enqueuedAt ?? new Date().toISOString(),
+      };
+      let pendingLock = resumed?.lock;
+      const logEntries: RfsLogEntry[] = [];
+      let releaseCommandLock: (() => Promise<void>) | undefined;
+      let stagingDir: string | null = null;
+
+      try {
+        if (signal.aborted) throw abortReasonToError(signal.reason);
+
+        // Join the queue first, so commands keep their send order, then persist
+        // the command while it waits, under a lock showing its sender is alive
+        const lockStart = Date.now();
+        const commandLock = acquireCommandLock(dataId, signal, span);
+        commandLock.catch(() => { /* awaited below */ });
+        try {
+          pendingLock ??= await locker.acquire(`pending:${pendingId}`);
+          await writePendingEntry(dataId, pendingId, pending);
+        } catch (err) {
+          commandLock.then(release => release(), () => { /* aborted while queued */ });
+          throw err;
+        }
+        releaseCommandLock = await commandLock;
+        const lockWaitMs = Date.now() - lockStart;
+        const commandStart = Date.now();
+        pending.status = 'running';
+        await writePendingEntry(dataId, pendingId, pending);
+
         // Emit command:start
         const startEvent = { type: 'command:start' as const, kind: kind.kind, dataId, command };
         emitGlobal(startEvent);
         emitCommand(dataId, 'command:start', startEvent);
 
-        try {
-          // Read current manifest
-          const currentManifest = await readManifest(adapter, dataDir);
-          const localDir = joinPath(dataDir, RFS_LOCAL_DIRNAME);
-
-          // Build onCommand context
-          const commandSpaceApi = createCommandSpaceApi<unknown>(
-            adapter,
-            spaceDir,
-            localDir,
-            globalRuntime,
-          );
+        // Read current manifest, finishing a swap a crash interrupted
+        const currentManifest = await tracedReadManifest(dataDir, span);
+        await recoverStaging(adapter, dataDir, currentManifest);
+        const localDir = joinPath(dataDir, RFS_LOCAL_DIRNAME);
 
-          const commandContext: RfsOnCommandContext<TCommand, unknown> = {
-            command: command as TCommand,
-            current: {
-              exports: currentManifest.exports,
-              metadata: currentManifest.metadata,
-            },
-            space: commandSpaceApi,
-            signal: new AbortController().signal,
-            emit: (payload: unknown) => {
-              const event = { type: 'custom' as const, kind: kind.kind, dataId, payload };
-              emitGlobal(event);
-              emitCustom(dataId, payload);
-            },
-          };
+        // Transactional kinds work on a copy of space/
+        if (kind.transactional) {
+          stagingDir = await createStaging(dataDir, currentManifest);
+        }
 
-          const result: RfsCommandResult = await kind.onCommand!(commandContext);
+        // Build onCommand context
+        const commandSpaceApi = createCommandSpaceApi<unknown>(
+          adapter,
+          stagingDir ?? spaceDir,
+          localDir,
+          globalRuntime,
+        );
+
+        const commandContext: RfsOnCommandContext<TCommand, unknown> = {
+          command: command as TCommand,
+          current: {
+            exports: currentManifest.exports,
+            metadata: currentManifest.metadata,
+          },
+          space: commandSpaceApi,
+          signal,
+          emit: (payload: unknown) => {
+            const event = { type: 'custom' as const, kind: kind.kind, dataId, payload };
+            emitGlobal(event);
+            emitCustom(dataId, payload);
+          },
+          log: createSpaceLogger(kind.kind, dataId, 'command', logEntries),
+        };
 
-          // Update manifest
-          const newExports = result?.exports
-            ? normalizeExports(result.exports)
-            : currentManifest.exports;
-          const newMetadata = result?.metadata ?? currentManifest.metadata;
+        const result: RfsCommandResult = await commandScope.run(dataId, () => kind.onCommand!(commandContext));
 
-          const commandRecord: RfsCommandRecord = {
-            command,
-            executedAt: new Date().toISOString(),
-            result: result ? { exports: newExports, metadata: newMetadata } : undefined,
-          };
+        // Aborted while onCommand ran — do not record the result
+        if (signal.aborted) throw abortReasonToError(signal.reason);
+
+        // Update manifest
+        const newExports = result?.exports
+          ? normalizeExports(result.exports)
+          : currentManifest.exports;
+        const newMetadata = result?.metadata ?? currentManifest.metadata;
 
-          currentManifest.exports = newExports;
-          currentManifest.metadata = newMetadata;
-          currentManifest.commands = [...(currentManifest.commands ?? []), commandRecord];
-          currentManifest.updatedAt = new Date().toISOString();
+        currentManifest.exports = newExports;
+        currentManifest.metadata = newMetadata;
+        await appendCommandRecord(dataDir, currentManifest, {
+          command,
+          executedAt: new Date().toISOString(),
+          result: result ? { exports: newExports, metadata: newMetadata } : undefined,
+        });
+        // Describe the content space/ will hold: the staging copy, if any
+        const contentDir = stagingDir ?? spaceDir;
+        currentManifest.contentDigest = await digestSpace(adapter, dataDir, currentManifest.dependencies, contentDir);
+        const size = await measureSpace(adapter, dataDir, currentManifest.dependencies, contentDir);
+        if (currentManifest.stats) currentManifest.stats = { ...currentManifest.stats, ...size };
+        currentManifest.updatedAt = new Date().toISOString();
+        const stats: RfsBuildStats = { durationMs: Date.now() - commandStart, lockWaitMs, ...size };
+
+        // Manifest first: if the swap is interrupted, recoverStaging() finishes it
+        await tracedWriteManifest(dataDir, currentManifest, span);
+        if (stagingDir) {
+          const committing = stagingDir;
+          stagingDir = null;
+          await commitStaging(adapter, dataDir, committing);
+        }
 
-          await writeManifest(adapter, dataDir, currentManifest);
+        const resolvedExports = resolveAbsoluteExports(spaceDir, newExports);
 
-          const resolvedExports = resolveAbsoluteExports(spaceDir, newExports);
+        // Emit command:done
+        const doneEvent = {
+          type: 'command:done' as const,
+          kind: kind.kind,
+          dataId,
+          command,
+          exports: resolvedExports,
+          metadata: newMetadata,
+          stats,
+        };
+        emitGlobal(doneEvent);
+        emitCommand(dataId, 'command:done', doneEvent);
+
+        return { exports: resolvedExports, metadata: newMetadata };
+      } catch (err) {
+        span.recordException(err instanceof Error ? err : new Error(String(err)));
+
+        // Discard the uncommitted copy; space/ is untouched (a copy the
+        // manifest already describes is left for recoverStaging)
+        if (stagingDir) {
+          await adapter.remove(stagingDir, { recursive: true }).catch(() => { /* best effort */ });
+        }
 
-          // Emit command:done
-          const doneEvent = {
-            type: 'command:done' as const,
+        if (signal.aborted) {
+          const abortedEvent = {
+            type: 'command:aborted' as const,
             kind: kind.kind,
             dataId,
             command,
-            exports: resolvedExports,
-            metadata: newMetadata,
+            reason: signal.reason,
           };
-          emitGlobal(doneEvent);
-          emitCommand(dataId, 'command:done', doneEvent);
+          emitGlobal(abortedEvent);
+          emitCommand(dataId, 'command:aborted', abortedEvent);
+          throw abortReasonToError(signal.reason);
+        }
 
-          return { exports: resolvedExports, metadata: newMetadata };
-        } catch (err) {
-          const error = err instanceof Error ? err : new Error(String(err));
-          const errorEvent = {
-            type: 'command:error' as const,
-            kind: kind.kind,
-            dataId,
-            command,
-            error,
+        const error = err instanceof Error ? err : new Error(String(err));
+        const errorEvent = {
+          type: 'command:error' as const,
+          kind: kind.kind,
+          dataId,
+          command,
+          error,
+        };
+        emitGlobal(errorEvent);
+        emitCommand(dataId, 'command:error', errorEvent);
+        throw err;
+      } finally {
+        dispose();
+        if (logEntries.length > 0) {
+          await appendBuildLog(adapter, dataDir, logEntries).catch(() => { /* best effort */ });
+        }
+        if (pendingLock) {
+          await adapter.remove(pendingEntryPath(dataId, pendingId)).catch(() => { /* never written */ });
+          await pendingLock.release();
+        }
+        if (releaseCommandLock) await releaseCommandLock();
+        span.end();
+      }
+    }
+
+    // Add command capabilities
+    const commands: RfsSpaceWithCommands<TCommand, TEvent> = {
+      async send(
+        command: TCommand,
+        sendOptions?: RfsSendOptions,
+      ): Promise<{ exports: Record<string, string>; metadata: Record<string, unknown> }> {
+        assertNotInCommand(dataId, 'send');
+
+        // Reject malformed commands before they are queued or recorded
+        if (kind.commandSchema) {
+          command = await validateSchema(kind.commandSchema, command, `command for kind "${kind.kind}"`) as TCommand;
+        }
+
+        return runCommand(command, sendOptions);
+      },
+
+      async history(historyOptions?: RfsHistoryOptions): Promise<RfsCommandLogRecord[]> {
+        const manifest = await readManifest(adapter, dataDir);
+        const lastSeq = manifest.commandLog?.lastSeq;
+
+        // Ignore a record whose manifest update never landed
+        let records: RfsCommandLogRecord[] = lastSeq === undefined
+          ? legacyCommandRecords(manifest)
+          : (await readCommandLog(adapter, dataDir)).filter(record => record.seq <= lastSeq);
+
+        const since = historyOptions?.since;
+        if (since !== undefined) {
+          records = records.filter(record => record.seq > since);
+        }
+        const limit = historyOptions?.limit;
+        if (limit !== undefined) {
+          records = records.slice(Math.max(0, records.length - limit));
+        }
+        return records;
+      },
+
+      async snapshot(label: string): Promise<RfsSnapshot> {
+        assertSnapshotLabel('snapshot', label);
+        assertNotInCommand(dataId, 'snapshot');
+
+        const release = await acquireCommandLock(dataId);
+        try {
+          const manifest = await readManifest(adapter, dataDir);
+          await recoverStaging(adapter, dataDir, manifest);
+          const snapshotDir = buildSnapshotDir(dataDir, label);
+          const tempDir = joinPath(
+            dataDir,
+            RFS_SNAPSHOTS_DIRNAME,
+            RFS_TEMP_PREFIX + Math.random().toString(36).slice(2, 10),
+          );
+
+          const snapshot: RfsSnapshot = {
+            label,
+            seq: manifest.commandLog?.lastSeq ?? manifest.commands?.length ?? 0,
+            exports: manifest.exports,
+            metadata: manifest.metadata,
+            contentDigest: await digestSpace(adapter, dataDir, manifest.dependencies),
+            createdAt: new Date().toISOString(),
           };
-          emitGlobal(errorEvent);
-          emitCommand(dataId, 'command:error', errorEvent);
-          throw err;
+
+          // Build the snapshot aside, then replace any previous one with the same label
+          try {
+            await copyTree(adapter, spaceDir, joinPath(tempDir, RFS_SPACE_DIRNAME), mountPathSet(manifest));
+            await adapter.writeFile(joinPath(tempDir, RFS_SNAPSHOT_FILENAME), stringifyStored(snapshot, 2));
+            await adapter.remove(snapshotDir, { recursive: true });
+            await adapter.rename(tempDir, snapshotDir);
+          } catch (err) {
+            await adapter.remove(tempDir, { recursive: true }).catch(() => { /* best effort */ });
+            throw err;
+          }
+
+          return snapshot;
+        } finally {
+          await release();
+        }
+      },
+
+      async revert(label: string): Promise<{ exports: Record<string, string>; metadata: Record<string, unknown> }> {
+        assertSnapshotLabel('revert', label);
+        assertNotInCommand(dataId, 'revert');
+        const release = await acquireCommandLock(dataId);
+        try {
+          const snapshotDir = buildSnapshotDir(dataDir, label);
+          const snapshotFile = joinPath(snapshotDir, RFS_SNAPSHOT_FILENAME);
+          if (!(await adapter.exists(snapshotFile))) {
+            throw new Error(`revert: snapshot "${label}" not found`);
+          }
+          const snapshot = parseStored<RfsSnapshot>(decoder.decode(await adapter.readFile(snapshotFile)));
+
+          const manifest = await readManifest(adapter, dataDir);
+          await recoverStaging(adapter, dataDir, manifest);
+          const stagingDir = await createStaging(dataDir, manifest, joinPath(snapshotDir, RFS_SPACE_DIRNAME));
+          try {
+            manifest.exports = snapshot.exports;
+            manifest.metadata = snapshot.metadata;
+            await appendCommandRecord(dataDir, manifest, {
+              revert: label,
+              toSeq: snapshot.seq,
+              executedAt: new Date().toISOString(),
+            });
+            manifest.contentDigest = await digestSpace(adapter, dataDir, manifest.dependencies, stagingDir);
+            if (manifest.stats) {
+              const size = await measureSpace(adapter, dataDir, manifest.dependencies, stagingDir);
+              manifest.stats = { ...manifest.stats, ...size };
+            }
+            manifest.updatedAt = new Date().toISOString();
+          } catch (err) {
+            await adapter.remove(stagingDir, { recursive: true }).catch(() => { /* best effort */ });
+            throw err;
+          }
+
+          // Manifest first, as in transactional commands
+          await writeManifest(adapter, dataDir, manifest);
+          await commitStaging(adapter, dataDir, stagingDir);
+
+          return { exports: resolveAbsoluteExports(spaceDir, snapshot.exports), metadata: snapshot.metadata };
+        } finally {
+          await release();
+        }
+      },
+
+      async pendingCommands(): Promise<RfsPendingCommand<TCommand>[]> {
+        const entries = await readPendingEntries(dataId);
+        return entries.map(entry => entry.pending) as RfsPendingCommand<TCommand>[];
+      },
+
+      async resumeCommands(): Promise<number> {
+        assertNotInCommand(dataId, 'resumeCommands');
+
+        let resumed = 0;
+        for (const { id, pending } of await readPendingEntries(dataId)) {
+          const lock = await tryAcquireLock(`pending:${id}`);
+          if (!lock) continue;
+
+          // The sender may have settled between the listing and the lock
+          if (!(await adapter.exists(pendingEntryPath(dataId, id)))) {
+            await lock.release();
+            continue;
+          }
+          await runCommand(pending.command as TCommand, undefined, { id, lock, enqueuedAt: pending.enqueuedAt });
+          resumed++;
         }
+        return resumed;
       },
 
       on<K extends keyof RfsCommandEventMap>(
@@ -761,7 +1923,7 @@ export function createStore(options: RfsStoreOptions): RfsStore {
         return () => handlers.delete(handler as (e: unknown) => void);
       },
 
-      onCustom<T = unknown>(handler: (payload: T) => void): RfsUnsubscribe {
+      onCustom<T = TEvent>(handler: (payload: T) => void): RfsUnsubscribe {
         if (!customListeners.has(dataId)) {
           customListeners.set(dataId, new Set());
         }
@@ -772,7 +1934,384 @@ export function createStore(options: RfsStoreOptions): RfsStore {
       },
     };
 
-    return Object.assign({}, base, commands) as RfsSpace<TCommand>;
+    return Object.assign({}, base, commands) as RfsSpace<TCommand, TEvent>;
+  }
+
+  // -------------------------------------------------------------------------
+  // Planning
+  // -------------------------------------------------------------------------
+
+  /**
+   * Resolve a space's dataId and cache status, then plan the static
+   * dependencies of a space that would be built. `fresh` marks local-scope
+   * dependencies of such a space, which are always built from scratch.
+   */
+  async function planNode(
+    kind: RfsAnyKind,
+    rawInput: unknown,
+    fresh: boolean,
+    ancestors: EnsureFrame[],
+  ): Promise<RfsPlanNode> {
+    const input = kind.inputSchema
+      ? await validateSchema(kind.inputSchema, rawInput, `input for kind "${kind.kind}"`)
+      : rawInput;
+    const inputRecord = (input ?? {}) as Record<string, unknown>;
+    const dataId = await computeDataId(
+      adapter,
+      kind.kind,
+      inputRecord,
+      kind.cacheKey as ((input: unknown) => Record<string, unknown>) | undefined,
+      kind.version,
+      canonicalOptions,
+    );
+
+    const cycleStart = ancestors.findIndex(frame => frame.dataId === dataId);
+    if (cycleStart !== -1) {
+      throw new RfsCycleError([...ancestors.slice(cycleStart), { kind: kind.kind, dataId }]);
+    }
+
+    let status: RfsPlanNode['status'] = 'missing';
+    if (!fresh) {
+      const dataDir = buildDataDir(root, kind.kind, dataId);
+      const manifest = (await spaceExists(adapter, dataDir)) ? await readManifest(adapter, dataDir) : null;
+      if (manifest) status = manifest.invalidatedAt ? 'invalidated' : 'cached';
+    }
+
+    const node: RfsPlanNode = { kind: kind.kind, dataId, input: inputRecord, status };
+    const untyped = kind as UntypedKind;
+    if (status === 'cached' || !untyped.dependencies) return node;
+
+    const stack = [...ancestors, { kind: kind.kind, dataId }];
+    node.dependencies = [];
+    for (const [mountPath, [depKind, depInput, depOptions]] of Object.entries(untyped.dependencies(input as Record<string, unknown>))) {
+      const scope = depOptions?.scope ?? 'shared';
+      const child = await planNode(depKind, depInput, fresh || scope === 'local', stack);
+      node.dependencies.push({ ...child, mountPath, scope });
+    }
+    return node;
+  }
+
+  // -------------------------------------------------------------------------
+  // Origin resolution and data root scanning
+  // -------------------------------------------------------------------------
+
+  function computeOriginDataId(origin: RfsOrigin): Promise<string> {
+    const cacheKeyFn = origin.cacheKey ? () => origin.cacheKey! : undefined;
+    return computeDataId(adapter, origin.kind, origin.input, cacheKeyFn, origin.version, canonicalOptions);
+  }
+
+  async function resolveOrigin(origin: RfsOrigin): Promise<{ dataId: string; dataDir: string }> {
+    const dataId = await computeOriginDataId(origin);
+    return { dataId, dataDir: buildDataDir(root, origin.kind, dataId) };
+  }
+
+  /**
+   * Walk `.radium-fs-data/{kind}/{shard}/` and collect finalized space
+   * directories and temporary build directories separately.
+   */
+  async function scanDataRoot(kind?: string): Promise<{
+    spaces: { kind: string; dataId: string; dataDir: string }[];
+    temps: string[];
+  }> {
+    const spaces: { kind: string; dataId: string; dataDir: string }[] = [];
+    const temps: string[] = [];
+    const dataRoot = joinPath(root, RFS_DATA_DIRNAME);
+
+    // Get kind directories to scan
+    let kindDirs: string[];
+    if (kind) {
+      kindDirs = [kind];
+    } else {
+      try {
+        kindDirs = await adapter.readDir(dataRoot);
+      } catch {
+        return { spaces, temps };
+      }
+    }
+
+    for (const kindDir of kindDirs) {
+      const kindPath = joinPath(dataRoot, kindDir);
+
+      // Iterate shard directories
+      let shardDirs: string[];
+      try {
+        shardDirs = await adapter.readDir(kindPath);
+      } catch {
+        continue;
+      }
+
+      for (const shardDir of shardDirs) {
+        const shardPath = joinPath(kindPath, shardDir);
+
+        // Iterate data directories
+        let dataDirs: string[];
+        try {
+          dataDirs = await adapter.readDir(shardPath);
+        } catch {
+          continue;
+        }
+
+        for (const dataId of dataDirs) {
+          const dataDir = joinPath(shardPath, dataId);
+          if (dataId.startsWith(RFS_TEMP_PREFIX)) {
+            temps.push(dataDir);
+          } else {
+            spaces.push({ kind: kindDir, dataId, dataDir });
+          }
+        }
+      }
+    }
+
+    return { spaces, temps };
+  }
+
+  /**
+   * Collect `.tmp-*` directories directly under a space's
+   * `.radium-fs-local-deps/` (gc visits the local-scope children themselves)
+   */
+  async function scanLocalTemps(dataDir: string): Promise<string[]> {
+    const temps: string[] = [];
+    const localDepsDir = joinPath(dataDir, RFS_LOCAL_DEPS_DIRNAME);
+
+    let kindDirs: string[];
+    try {
+      kindDirs = await adapter.readDir(localDepsDir);
+    } catch {
+      return temps;
+    }
+
+    for (const kindDir of kindDirs) {
+      let shardDirs: string[];
+      try {
+        shardDirs = await adapter.readDir(joinPath(localDepsDir, kindDir));
+      } catch {
+        continue;
+      }
+
+      for (const shardDir of shardDirs) {
+        const shardPath = joinPath(localDepsDir, kindDir, shardDir);
+        let entries: string[];
+        try {
+          entries = await adapter.readDir(shardPath);
+        } catch {
+          continue;
+        }
+
+        for (const name of entries) {
+          if (name.startsWith(RFS_TEMP_PREFIX)) temps.push(joinPath(shardPath, name));
+        }
+      }
+    }
+
+    return temps;
+  }
+
+  /** Whether a directory was modified less than `ms` ago (it may belong to another process's build) */
+  async function modifiedWithin(dir: string, ms: number): Promise<boolean> {
+    try {
+      const { mtime } = await adapter.stat(dir);
+      return Date.now() - mtime.getTime() < ms;
+    } catch {
+      return false;
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // Command log
+  // -------------------------------------------------------------------------
+
+  /**
+   * Append a command record to the space's log and update `manifest.commandLog`
+   * (the caller writes the manifest). Records still kept in the manifest by
+   * earlier versions are moved into the log first. Once the log holds twice
+   * `commandLog.maxEntries` records it is compacted to the most recent ones.
+   */
+  async function appendCommandRecord(
+    dataDir: string,
+    manifest: RfsManifest,
+    record: Omit<RfsCommandRecord, 'seq'> | Omit<RfsRevertRecord, 'seq'>,
+  ): Promise<void> {
+    const legacy = manifest.commandLog ? [] : legacyCommandRecords(manifest);
+    const state = manifest.commandLog ?? { lastSeq: legacy.length, entries: legacy.length };
+    const seq = state.lastSeq + 1;
+
+    await appendCommandLog(adapter, dataDir, [...legacy, { seq, ...record }]);
+    let entries = state.entries + 1;
+
+    const maxEntries = options.commandLog?.maxEntries;
+    if (maxEntries !== undefined && entries >= maxEntries * 2) {
+      const records = await readCommandLog(adapter, dataDir);
+      const kept = records.slice(Math.max(0, records.length - maxEntries));
+      // Write aside and rename, so a crash never leaves a half-written log
+      const compacted = commandLogPath(dataDir) + '.compacting';
+      await adapter.writeFile(compacted, serializeCommandLog(kept));
+      await adapter.rename(compacted, commandLogPath(dataDir));
+      entries = kept.length;
+    }
+
+    manifest.commandLog = { lastSeq: seq, entries };
+    delete manifest.commands;
+  }
+
+  // -------------------------------------------------------------------------
+  // Transactional commands
+  // -------------------------------------------------------------------------
+
+  /**
+   * Copy space/ (or a snapshot of it) into the staging directory, for a
+   * transactional command or a revert. Dependency mounts are not copied;
+   * their symlinks are recreated from the manifest. The staging directory
+   * sits next to space/, so a link target computed relative to space/ stays
+   * valid once the copy is swapped in. The caller has already run
+   * recoverStaging(), so no staging directory is left over.
+   */
+  async function createStaging(
+    dataDir: string,
+    manifest: RfsManifest,
+    sourceDir = joinPath(dataDir, RFS_SPACE_DIRNAME),
+  ): Promise<string> {
+    const spaceDir = joinPath(dataDir, RFS_SPACE_DIRNAME);
+    const stagingDir = joinPath(dataDir, RFS_STAGING_DIRNAME);
+    const dependencies = manifest.dependencies ?? [];
+
+    await copyTree(adapter, sourceDir, stagingDir, mountPathSet(manifest));
+
+    for (const dep of dependencies) {
+      const depDataId = await computeOriginDataId(dep.origin);
+      const depDataDir = dep.scope === 'local'
+        ? buildLocalDepDir(dataDir, dep.origin.kind, depDataId)
+        : buildDataDir(root, dep.origin.kind, depDataId);
+      const depExports = dep.export === '*' ? {} : (await readManifest(adapter, depDataDir)).exports;
+      const targetPath = resolveExportTarget(depDataDir, depExports, dep.export ?? '.', dep.origin.kind);
+
+      const relativeTarget = computeRelativePath(joinPath(spaceDir, dep.mountPath), targetPath);
+      await adapter.symlink(relativeTarget, joinPath(stagingDir, dep.mountPath));
+    }
+
+    return stagingDir;
+  }
+
+  // -------------------------------------------------------------------------
+  // Reverse dependency index
+  //
+  // {root}/.radium-fs-index/dependents/{shard}/{dataId}/{entry}.json
+  //
+  // One entry file per (dependency, dependent) pair, so concurrent builds
+  // never rewrite a shared file. Entries only point at the dependent's data
+  // directory; the dependent's manifest stays the source of truth and stale
+  // entries are pruned on read.
+  // -------------------------------------------------------------------------
+
+  function dependentsIndexDir(dataId: string): string {
+    return joinPath(root, RFS_INDEX_DIRNAME, RFS_DEPENDENTS_DIRNAME, getShard(dataId), dataId);
+  }
+
+  async function sharedDependencyIds(manifest: RfsManifest): Promise<Map<string, string[]>> {
+    const result = new Map<string, string[]>();
+    for (const dep of manifest.dependencies ?? []) {
+      if (dep.scope !== 'shared') continue;
+      const depDataId = await computeOriginDataId(dep.origin);
+      const mountPaths = result.get(depDataId) ?? [];
+      mountPaths.push(dep.mountPath);
+      result.set(depDataId, mountPaths);
+    }
+    return result;
+  }
+
+  async function indexDependents(dataDir: string, manifest: RfsManifest): Promise<void> {
+    const targets = await sharedDependencyIds(manifest);
+    if (targets.size > 0) {
+      const entryName = (await adapter.hash(encoder.encode(dataDir))) + '.json';
+      const entry = JSON.stringify({ path: dataDir.slice(joinPath(root).length) });
+      for (const depDataId of targets.keys()) {
+        await adapter.writeFile(joinPath(dependentsIndexDir(depDataId), entryName), entry);
+      }
+    }
+
+    // Local-scope children live inside this space and may mount shared spaces too
+    for (const dep of manifest.dependencies ?? []) {
+      if (dep.scope !== 'local') continue;
+      const depDataDir = buildLocalDepDir(dataDir, dep.origin.kind, await computeOriginDataId(dep.origin));
+      await indexDependents(depDataDir, await readManifest(adapter, depDataDir));
+    }
+  }
+
+  /** Written once the index covers every space on disk */
+  function dependentsIndexMarker(): string {
+    return joinPath(root, RFS_INDEX_DIRNAME, RFS_DEPENDENTS_DIRNAME, '.complete');
+  }
+
+  let indexBackfill: Promise<void> | null = null;
+
+  /**
+   * Fill the index from the manifests on disk if it was never completed:
+   * stores written before the index existed, or whose index was deleted
+   */
+  async function ensureDependentsIndex(): Promise<void> {
+    if (await adapter.exists(dependentsIndexMarker())) return;
+
+    indexBackfill ??= (async () => {
+      const { spaces } = await scanDataRoot();
+      for (const { dataDir } of spaces) {
+        try {
+          if (!(await spaceExists(adapter, dataDir))) continue;
+          await indexDependents(dataDir, await readManifest(adapter, dataDir));
+        } catch {
+          // A space whose manifest cannot be read has no dependencies to index
+        }
+      }
+      await adapter.writeFile(dependentsIndexMarker(), new Date().toISOString());
+    })().finally(() => { indexBackfill = null; });
+    await indexBackfill;
+  }
+
+  async function loadDependent(dataDir: string, targetDataId: string): Promise<RfsDependent | null> {
+    if (!(await spaceExists(adapter, dataDir))) return null;
+
+    const manifest = await readManifest(adapter, dataDir);
+    const mountPaths = (await sharedDependencyIds(manifest)).get(targetDataId);
+    if (!mountPaths) return null;
+
+    return {
+      dataId: dataDir.slice(dataDir.lastIndexOf('/') + 1),
+      kind: manifest.origin.kind,
+      origin: manifest.origin,
+      path: joinPath(dataDir, RFS_SPACE_DIRNAME),
+      scope: dataDir.includes('/' + RFS_LOCAL_DEPS_DIRNAME + '/') ? 'local' : 'shared',
+      mountPaths,
+    };
+  }
+
+  async function findDependents(dataId: string): Promise<RfsDependent[]> {
+    await ensureDependentsIndex();
+    const indexDir = dependentsIndexDir(dataId);
+
+    let entries: string[];
+    try {
+      entries = await adapter.readDir(indexDir);
+    } catch {
+      return [];
+    }
+
+    const results: RfsDependent[] = [];
+    for (const name of entries) {
+      const entryPath = joinPath(indexDir, name);
+      let dependent: RfsDependent | null = null;
+      try {
+        const entry = JSON.parse(decoder.decode(await adapter.readFile(entryPath))) as { path: string };
+        dependent = await loadDependent(joinPath(root, entry.path), dataId);
+      } catch {
+        // Unreadable entries are treated as stale
+      }
+
+      if (dependent) {
+        results.push(dependent);
+      } else {
+        await adapter.remove(entryPath);
+      }
+    }
+
+    return results;
   }
 
   // -------------------------------------------------------------------------
@@ -783,13 +2322,26 @@ export function createStore(options: RfsStoreOptions): RfsStore {
     get root() { return root; },
     get adapter() { return adapter; },
 
-    async ensure<TInput, TCommand, TRuntime>(
-      kind: RfsKind<TInput, TCommand, TRuntime>,
+    async ensure<TInput, TCommand, TRuntime, TEvent>(
+      kind: RfsKind<TInput, TCommand, TRuntime, TEvent>,
       input: TInput,
       options?: RfsEnsureOptions,
-    ): Promise<RfsSpace<TCommand>> {
+    ): Promise<RfsSpace<TCommand, TEvent>> {
       const { space, dataDir } = await ensureInternal(kind, input, null, options);
-      return buildRfsSpace(dataDir, space.path, space.manifest, kind as RfsKind<unknown, TCommand, unknown>, space.dataId);
+      return buildRfsSpace(
+        dataDir,
+        space.path,
+        space.manifest,
+        kind as RfsKind<unknown, TCommand, unknown, TEvent>,
+        space.dataId,
+      );
+    },
+
+    plan<TInput, TCommand, TRuntime>(
+      kind: RfsKind<TInput, TCommand, TRuntime>,
+      input: TInput,
+    ): Promise<RfsPlanNode> {
+      return planNode(kind, input, false, []);
     },
 
     on(handler: (event: RfsEvent) => void): RfsUnsubscribe {
@@ -797,11 +2349,19 @@ export function createStore(options: RfsStoreOptions): RfsStore {
       return () => globalListeners.delete(handler);
     },
 
+    onCustom<TEvent>(
+      kind: RfsAnyKind<TEvent>,
+      handler: (event: RfsCustomEvent<TEvent>) => void,
+    ): RfsUnsubscribe {
+      return store.on(event => {
+        if (event.type === 'custom' && event.kind === kind.kind) {
+          handler(event as RfsCustomEvent<TEvent>);
+        }
+      });
+    },
+
     async find(origin: RfsOrigin): Promise<RfsSpaceBase | null> {
-      const inputRecord = origin.input;
-      const cacheKeyFn = origin.cacheKey ? () => origin.cacheKey! : undefined;
-      const dataId = await computeDataId(adapter, origin.kind, inputRecord, cacheKeyFn);
-      const dataDir = buildDataDir(root, origin.kind, dataId);
+      const { dataId, dataDir } = await resolveOrigin(origin);
 
       if (!(await spaceExists(adapter, dataDir))) return null;
 
@@ -811,18 +2371,12 @@ export function createStore(options: RfsStoreOptions): RfsStore {
     },
 
     async has(origin: RfsOrigin): Promise<boolean> {
-      const inputRecord = origin.input;
-      const cacheKeyFn = origin.cacheKey ? () => origin.cacheKey! : undefined;
-      const dataId = await computeDataId(adapter, origin.kind, inputRecord, cacheKeyFn);
-      const dataDir = buildDataDir(root, origin.kind, dataId);
+      const { dataDir } = await resolveOrigin(origin);
       return spaceExists(adapter, dataDir);
     },
 
     async remove(origin: RfsOrigin): Promise<void> {
-      const inputRecord = origin.input;
-      const cacheKeyFn = origin.cacheKey ? () => origin.cacheKey! : undefined;
-      const dataId = await computeDataId(adapter, origin.kind, inputRecord, cacheKeyFn);
-      const dataDir = buildDataDir(root, origin.kind, dataId);
+      const { dataId, dataDir } = await resolveOrigin(origin);
       await adapter.remove(dataDir, { recursive: true });
 
       // Clean up per-space listener maps to prevent memory leaks
@@ -832,59 +2386,284 @@ export function createStore(options: RfsStoreOptions): RfsStore {
 
     async list(kind?: string): Promise<RfsSpaceBase[]> {
       const results: RfsSpaceBase[] = [];
-      const dataRoot = joinPath(root, RFS_DATA_DIRNAME);
+      const { spaces } = await scanDataRoot(kind);
 
-      // Get kind directories to scan
-      let kindDirs: string[];
-      if (kind) {
-        kindDirs = [kind];
-      } else {
+      for (const entry of spaces) {
         try {
-          kindDirs = await adapter.readDir(dataRoot);
+          const manifest = await readManifest(adapter, entry.dataDir);
+          const spaceDir = joinPath(entry.dataDir, RFS_SPACE_DIRNAME);
+          results.push(buildRfsSpaceBase(entry.dataDir, spaceDir, manifest, entry.kind, entry.dataId));
         } catch {
-          return [];
+          // Skip entries with invalid/missing manifests
+        }
+      }
+
+      return results;
+    },
+
+    async stats(kind?: string): Promise<RfsStoreStats> {
+      const empty = (): RfsKindStats =>
+        ({ spaces: 0, unmeasured: 0, durationMs: 0, lockWaitMs: 0, fileCount: 0, byteSize: 0 });
+      const result: RfsStoreStats = { kinds: {}, total: empty() };
+
+      for (const space of await store.list(kind)) {
+        const totals = result.kinds[space.kind] ??= empty();
+        for (const target of [totals, result.total]) {
+          target.spaces++;
+          const stats = space.manifest.stats;
+          if (!stats) {
+            target.unmeasured++;
+            continue;
+          }
+          target.durationMs += stats.durationMs;
+          target.lockWaitMs += stats.lockWaitMs;
+          target.fileCount += stats.fileCount;
+          target.byteSize += stats.byteSize;
         }
       }
 
-      for (const kindDir of kindDirs) {
-        const kindPath = joinPath(dataRoot, kindDir);
+      return result;
+    },
+
+    async buildLog(origin: RfsOrigin): Promise<RfsLogEntry[] | null> {
+      const { dataDir } = await resolveOrigin(origin);
+      if (!(await spaceExists(adapter, dataDir))) return null;
+      return readBuildLog(adapter, dataDir);
+    },
+
+    async verify(origin: RfsOrigin): Promise<RfsVerifyResult | null> {
+      const { dataDir } = await resolveOrigin(origin);
+      if (!(await spaceExists(adapter, dataDir))) return null;
+
+      const manifest = await readManifest(adapter, dataDir);
+      return verifySpace(adapter, dataDir, manifest);
+    },
+
+    async dependents(origin: RfsOrigin): Promise<RfsDependent[]> {
+      const { dataId } = await resolveOrigin(origin);
+      return findDependents(dataId);
+    },
 
-        // Iterate shard directories
-        let shardDirs: string[];
+    async invalidate(origin: RfsOrigin, invalidateOptions?: RfsInvalidateOptions): Promise<RfsInvalidateResult> {
+      const cascade = invalidateOptions?.cascade ?? false;
+      const { dataId: cause, dataDir: rootDataDir } = await resolveOrigin(origin);
+
+      const invalidated: { dataId: string; dataDir: string; manifest: RfsManifest }[] = [];
+      const visited = new Set<string>();
+      const queue = [{ dataId: cause, dataDir: rootDataDir }];
+
+      while (queue.length > 0) {
+        const { dataId, dataDir } = queue.shift()!;
+        if (visited.has(dataDir)) continue;
+        visited.add(dataDir);
+
+        // Hold the space and command locks so the mark cannot race a build
+        // of the same space, or be overwritten by a command in flight
+        let manifest: RfsManifest;
+        assertNotInCommand(dataId, 'invalidate');
+        const lockHandle = await locker.acquire(dataId);
+        let releaseCommandLock: (() => Promise<void>) | undefined;
         try {
-          shardDirs = await adapter.readDir(kindPath);
-        } catch {
-          continue;
+          if (!(await spaceExists(adapter, dataDir))) continue;
+          releaseCommandLock = await acquireCommandLock(dataId);
+
+          manifest = await readManifest(adapter, dataDir);
+          if (!manifest.invalidatedAt) {
+            manifest.invalidatedAt = new Date().toISOString();
+            await writeManifest(adapter, dataDir, manifest);
+          }
+        } finally {
+          if (releaseCommandLock) await releaseCommandLock();
+          await lockHandle.release();
+        }
+        invalidated.push({ dataId, dataDir, manifest });
+
+        emitGlobal({
+          type: 'space:invalidated',
+          kind: manifest.origin.kind,
+          dataId,
+          path: joinPath(dataDir, RFS_SPACE_DIRNAME),
+          cause,
+        });
+
+        if (!cascade) continue;
+
+        // A local-scope space lives inside its owner, so the owner is stale too
+        const localDepsIdx = dataDir.lastIndexOf('/' + RFS_LOCAL_DEPS_DIRNAME + '/');
+        if (localDepsIdx !== -1) {
+          const ownerDir = dataDir.slice(0, localDepsIdx);
+          queue.push({ dataId: ownerDir.slice(ownerDir.lastIndexOf('/') + 1), dataDir: ownerDir });
         }
 
-        for (const shardDir of shardDirs) {
-          const shardPath = joinPath(kindPath, shardDir);
+        for (const dependent of await findDependents(dataId)) {
+          queue.push({
+            dataId: dependent.dataId,
+            dataDir: dependent.path.slice(0, -(RFS_SPACE_DIRNAME.length + 1)),
+          });
+        }
+      }
 
-          // Iterate data directories
-          let dataDirs: string[];
-          try {
-            dataDirs = await adapter.readDir(shardPath);
-          } catch {
-            continue;
+      const rebuilt: string[] = [];
+      if (invalidateOptions?.rebuild) {
+        // Rebuild dependencies before the spaces that mount them
+        const byDataDir = new Map(invalidated.map(entry => [entry.dataDir, entry]));
+        const ordered: typeof invalidated = [];
+        const placed = new Set<string>();
+        const place = async (entry: typeof invalidated[number]): Promise<void> => {
+          if (placed.has(entry.dataDir)) return;
+          placed.add(entry.dataDir);
+          for (const dep of entry.manifest.dependencies ?? []) {
+            const depDataId = await computeOriginDataId(dep.origin);
+            const depDataDir = dep.scope === 'local'
+              ? buildLocalDepDir(entry.dataDir, dep.origin.kind, depDataId)
+              : buildDataDir(root, dep.origin.kind, depDataId);
+            const depEntry = byDataDir.get(depDataDir);
+            if (depEntry) await place(depEntry);
           }
+          ordered.push(entry);
+        };
+        for (const entry of invalidated) await place(entry);
+
+        for (const { dataId, dataDir, manifest } of ordered) {
+          // A different version of the kind would build a different space
+          const kind = knownKind(manifest.origin.kind);
+          if (!kind || kind.version !== manifest.origin.version) continue;
+          if (dataDir !== buildDataDir(root, manifest.origin.kind, dataId)) continue;
+          await ensureInternal(kind, manifest.origin.input, null);
+          rebuilt.push(dataId);
+        }
+      }
 
-          for (const dataId of dataDirs) {
-            // Skip temp directories
-            if (dataId.startsWith(RFS_TEMP_PREFIX)) continue;
-
-            const dataDir = joinPath(shardPath, dataId);
-            try {
-              const manifest = await readManifest(adapter, dataDir);
-              const spaceDir = joinPath(dataDir, RFS_SPACE_DIRNAME);
-              results.push(buildRfsSpaceBase(dataDir, spaceDir, manifest, kindDir, dataId));
-            } catch {
-              // Skip entries with invalid/missing manifests
-            }
+      return { invalidated: invalidated.map(entry => entry.dataId), rebuilt };
+    },
+
+    async replay(origin: RfsOrigin): Promise<RfsReplayResult | null> {
+      const { dataId, dataDir } = await resolveOrigin(origin);
+      if (!(await spaceExists(adapter, dataDir))) return null;
+
+      const kind = knownKind(origin.kind);
+      if (!kind) {
+        throw new Error(
+          `replay: kind "${origin.kind}" is not known to this store. ` +
+          'Pass it to createStore({ kinds }) or ensure() it first',
+        );
+      }
+
+      assertNotInCommand(dataId, 'replay');
+      const release = await acquireCommandLock(dataId);
+      const scratchDir = buildTempDir(root, origin.kind, dataId);
+      activeTempDirs.add(scratchDir);
+
+      try {
+        const manifest = await readManifest(adapter, dataDir);
+        // Another version's hooks would not rebuild what this space recorded
+        if (kind.version !== manifest.origin.version) {
+          throw new Error(
+            `replay: ${dataId} was built by version ${String(manifest.origin.version)} of kind "${kind.kind}", ` +
+            `but this store knows version ${String(kind.version)}`,
+          );
+        }
+
+        const lastSeq = manifest.commandLog?.lastSeq;
+        const records = lastSeq === undefined
+          ? legacyCommandRecords(manifest)
+          : (await readCommandLog(adapter, dataDir)).filter(record => record.seq <= lastSeq);
+
+        if (records.length !== (lastSeq ?? records.length) || records.some((record, i) => record.seq !== i + 1)) {
+          throw new Error(`replay: command history of ${dataId} was compacted and cannot be replayed`);
+        }
+        if (records.length > 0 && !kind.onCommand) {
+          throw new Error(`replay: kind "${kind.kind}" has recorded commands but no onCommand hook`);
+        }
+
+        return await replayRecords(kind, dataId, manifest, records, scratchDir);
+      } finally {
+        activeTempDirs.delete(scratchDir);
+        await adapter.remove(scratchDir, { recursive: true }).catch(() => { /* best effort */ });
+        await release();
+      }
+    },
+
+    async gc(gcOptions: RfsGcOptions): Promise<RfsGcResult> {
+      const dryRun = gcOptions.dryRun ?? false;
+      const tempGraceMs = gcOptions.tempGraceMs ?? DEFAULT_TEMP_GRACE_MS;
+
+      // Mark — walk dependencies from the roots. Local-scope dependencies live
+      // inside their parent, but they may themselves mount shared spaces.
+      const reachable = new Set<string>();
+      const visited = new Set<string>();
+      const keptDirs: string[] = [];
+      const unreadable: string[] = [];
+      const queue: { origin: RfsOrigin; dataDir: string; dataId: string }[] = [];
+
+      for (const origin of gcOptions.roots) {
+        queue.push({ origin, ...(await resolveOrigin(origin)) });
+      }
+
+      while (queue.length > 0) {
+        const { origin, dataDir, dataId } = queue.shift()!;
+        if (visited.has(dataDir)) continue;
+        visited.add(dataDir);
+
+        if (!(await spaceExists(adapter, dataDir))) continue;
+        if (dataDir === buildDataDir(root, origin.kind, dataId)) {
+          reachable.add(dataId);
+        }
+        keptDirs.push(dataDir);
+
+        let manifest: RfsManifest;
+        try {
+          manifest = await readManifest(adapter, dataDir);
+        } catch {
+          unreadable.push(dataDir);
+          continue;
+        }
+        for (const dep of manifest.dependencies ?? []) {
+          if (dep.scope === 'local') {
+            const depDataId = await computeOriginDataId(dep.origin);
+            queue.push({
+              origin: dep.origin,
+              dataId: depDataId,
+              dataDir: buildLocalDepDir(dataDir, dep.origin.kind, depDataId),
+            });
+          } else {
+            queue.push({ origin: dep.origin, ...(await resolveOrigin(dep.origin)) });
           }
         }
       }
 
-      return results;
+      // Sweep — everything under the data root that was not marked, plus
+      // temps left in the local-deps directories of the spaces that stay
+      const { spaces, temps } = await scanDataRoot();
+      for (const dataDir of keptDirs) {
+        temps.push(...(await scanLocalTemps(dataDir)));
+      }
+      const unreachable = spaces.filter(entry => !reachable.has(entry.dataId));
+      const orphanedTemps: string[] = [];
+      for (const dir of temps) {
+        if (!activeTempDirs.has(dir) && !(await modifiedWithin(dir, tempGraceMs))) {
+          orphanedTemps.push(dir);
+        }
+      }
+
+      if (!dryRun) {
+        // An unreadable manifest may hide dependencies; keep every space then
+        for (const entry of unreadable.length > 0 ? [] : unreachable) {
+          await adapter.remove(entry.dataDir, { recursive: true });
+          commandListeners.delete(entry.dataId);
+          customListeners.delete(entry.dataId);
+        }
+        for (const dir of orphanedTemps) {
+          await adapter.remove(dir, { recursive: true });
+        }
+      }
+
+      return {
+        unreachable: unreachable.map(entry => entry.dataId),
+        orphanedTemps,
+        unreadable,
+        dryRun,
+      };
     },
   };
 
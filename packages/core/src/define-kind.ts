@@ -6,10 +6,14 @@
  */
 
 import type { RfsKindDef, RfsKind } from './defs';
+import { isRfsSchema } from './schema';
 
 /**
  * Define a Kind (recipe for a space)
  *
+ * Type parameters: input, command (`never` for no onCommand), runtime, and
+ * the payload type of custom events passed to emit().
+ *
  * @param def - Kind definition including kind name, onInit, and optionally onCommand
  * @returns A frozen RfsKind object
  *
@@ -27,7 +31,8 @@ export function defineKind<
   TInput = unknown,
   TCommand = never,
   TRuntime = Record<string, unknown>,
->(def: RfsKindDef<TInput, TCommand, TRuntime>): RfsKind<TInput, TCommand, TRuntime> {
+  TEvent = unknown,
+>(def: RfsKindDef<TInput, TCommand, TRuntime, TEvent>): RfsKind<TInput, TCommand, TRuntime, TEvent> {
   if (!def.kind || typeof def.kind !== 'string') {
     throw new Error('defineKind: kind must be a non-empty string');
   }
@@ -36,10 +41,40 @@ export function defineKind<
     throw new Error('defineKind: onInit must be a function');
   }
 
+  if (
+    def.version !== undefined &&
+    !(typeof def.version === 'string' && def.version) &&
+    !(typeof def.version === 'number' && Number.isFinite(def.version))
+  ) {
+    throw new Error('defineKind: version must be a non-empty string or a finite number');
+  }
+
+  if (def.dependencies !== undefined && typeof def.dependencies !== 'function') {
+    throw new Error('defineKind: dependencies must be a function of the input');
+  }
+
+  if (def.inputSchema !== undefined && !isRfsSchema(def.inputSchema)) {
+    throw new Error('defineKind: inputSchema must implement the Standard Schema interface');
+  }
+
+  if (def.commandSchema !== undefined) {
+    if (!isRfsSchema(def.commandSchema)) {
+      throw new Error('defineKind: commandSchema must implement the Standard Schema interface');
+    }
+    if (!def.onCommand) {
+      throw new Error('defineKind: commandSchema requires onCommand');
+    }
+  }
+
   return Object.freeze({
     kind: def.kind,
+    version: def.version,
     cacheKey: def.cacheKey,
+    dependencies: def.dependencies,
+    inputSchema: def.inputSchema,
+    commandSchema: def.commandSchema,
+    transactional: def.transactional,
     onInit: def.onInit,
     onCommand: def.onCommand,
-  }) as RfsKind<TInput, TCommand, TRuntime>;
+  }) as RfsKind<TInput, TCommand, TRuntime, TEvent>;
 }
@@ -39,6 +39,14 @@ export interface RfsAdapter {
   /** Write content to a file (creates parent directories if needed) */
   writeFile(path: string, content: string | Uint8Array): Promise<void>;
 
+  /**
+   * Append content to a file (creates the file and parent directories if needed)
+   *
+   * Optional. Used for the append-only command log; when omitted the core
+   * falls back to reading the file and writing it back whole.
+   */
+  appendFile?(path: string, content: string | Uint8Array): Promise<void>;
+
   /** Create a directory (always recursive) */
   mkdir(path: string): Promise<void>;
 
@@ -68,6 +76,17 @@ export interface RfsAdapter {
    */
   symlink(target: string, linkPath: string): Promise<void>;
 
+  /**
+   * Read the target of a symbolic link without following it
+   *
+   * Optional. Used to copy symlinks as links when staging a transactional
+   * command or a snapshot; when omitted they are copied as the content
+   * they point to.
+   *
+   * @returns The link target as stored, or null if the path is not a symlink
+   */
+  readLink?(path: string): Promise<string | null>;
+
   /**
    * Find files matching a glob pattern
    *
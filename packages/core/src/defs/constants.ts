@@ -7,18 +7,49 @@
 /** Manifest filename */
 export const RFS_MANIFEST_FILENAME = '.radium-fs-manifest.json' as const;
 
+/** Command log filename (JSON Lines, one RfsCommandLogRecord per line, next to the manifest) */
+export const RFS_COMMAND_LOG_FILENAME = '.radium-fs-commands.jsonl' as const;
+
+/** Build log filename (JSON Lines, one RfsLogEntry per line, next to the manifest; see RfsStoreOptions.buildLog) */
+export const RFS_BUILD_LOG_FILENAME = '.radium-fs-build-log.jsonl' as const;
+
 /** Space directory name (public content area) */
 export const RFS_SPACE_DIRNAME = 'space' as const;
 
 /** Local directory name (private storage, physically isolated) */
 export const RFS_LOCAL_DIRNAME = 'local' as const;
 
+/** Staging copy of space/ used by transactional commands (sibling of space/) */
+export const RFS_STAGING_DIRNAME = '.radium-fs-staging' as const;
+
+/** Previous space/ kept while a transactional command swaps in its staging copy */
+export const RFS_PREVIOUS_SPACE_DIRNAME = '.radium-fs-space-previous' as const;
+
+/** Snapshot storage directory name (holds one `{label}/` directory per snapshot) */
+export const RFS_SNAPSHOTS_DIRNAME = '.radium-fs-snapshots' as const;
+
+/** Snapshot metadata filename (inside each snapshot directory, next to its space/ copy) */
+export const RFS_SNAPSHOT_FILENAME = 'snapshot.json' as const;
+
 /** Local-scope dependency storage directory name */
 export const RFS_LOCAL_DEPS_DIRNAME = '.radium-fs-local-deps' as const;
 
 /** Top-level data storage directory name (dot-prefixed to indicate managed/hidden directory) */
 export const RFS_DATA_DIRNAME = '.radium-fs-data' as const;
 
+/**
+ * Top-level directory of commands accepted by space.send() that have not
+ * settled yet (`{shard}/{dataId}/{id}.json`, one RfsPendingCommand each).
+ * Kept outside the data directory, which a rebuild replaces.
+ */
+export const RFS_PENDING_DIRNAME = '.radium-fs-pending' as const;
+
+/** Top-level index directory name (derived lookup data that can be rebuilt from manifests) */
+export const RFS_INDEX_DIRNAME = '.radium-fs-index' as const;
+
+/** Reverse dependency index directory name (inside the index directory) */
+export const RFS_DEPENDENTS_DIRNAME = 'dependents' as const;
+
 /** Temporary directory prefix (used during build, atomically renamed on completion) */
 export const RFS_TEMP_PREFIX = '.tmp-' as const;
 
@@ -2,25 +2,48 @@
  * radium-fs event types
  *
  * Events are delivered through three channels:
- * 1. Store-level `store.on()` — global listener for all events
+ * 1. Store-level `store.on()` — global listener for all events (and
+ *    `store.onCustom(kind, ...)` for the custom events of one kind)
  * 2. Ensure-level options callbacks — `onStart`, `onCached`, etc.
  * 3. Space-level `.on()` / `.onCustom()` — command lifecycle events and custom events
  *
  * Note: Custom events emitted via emit() during onInit can only be captured
- * by store.on(), since the RfsSpace object has not yet been returned to the
- * caller at that point.
+ * by store.on() or store.onCustom(), since the RfsSpace object has not yet
+ * been returned to the caller at that point.
  */
 
+import type { RfsBuildStats, RfsLogLevel } from './manifest';
+
 // ---------------------------------------------------------------------------
 // Init Events
 // ---------------------------------------------------------------------------
 
+/**
+ * Fired when a build has to wait for a slot (cache miss with
+ * `RfsStoreOptions.concurrency` reached); `init:start` follows once it runs
+ */
+export interface RfsInitQueuedEvent {
+  type: 'init:queued';
+  kind: string;
+  dataId: string;
+  input: unknown;
+  priority: number;
+  /** dataId of the space whose onInit mounted this one (absent for store-level calls) */
+  parentDataId?: string;
+  /** dataId of the space passed to store.ensure() at the top of this build tree */
+  rootDataId: string;
+}
+
 /** Fired when init begins (cache miss, about to execute onInit) */
 export interface RfsInitStartEvent {
   type: 'init:start';
   kind: string;
   dataId: string;
   input: unknown;
+  /** dataId of the space whose onInit mounted this one (absent for store-level calls) */
+  parentDataId?: string;
+  /** dataId of the space passed to store.ensure() at the top of this build tree */
+  rootDataId: string;
 }
 
 /** Fired on cache hit (onInit skipped) */
@@ -30,6 +53,10 @@ export interface RfsInitCachedEvent {
   dataId: string;
   input: unknown;
   path: string;
+  /** dataId of the space whose onInit mounted this one (absent for store-level calls) */
+  parentDataId?: string;
+  /** dataId of the space passed to store.ensure() at the top of this build tree */
+  rootDataId: string;
 }
 
 /** Fired when init completes successfully */
@@ -41,15 +68,55 @@ export interface RfsInitDoneEvent {
   path: string;
   exports: Record<string, string>;
   metadata: Record<string, unknown>;
+  /** Build duration, lock wait, and size of space/ (as recorded in the manifest) */
+  stats: RfsBuildStats;
+  /** dataId of the space whose onInit mounted this one (absent for store-level calls) */
+  parentDataId?: string;
+  /** dataId of the space passed to store.ensure() at the top of this build tree */
+  rootDataId: string;
 }
 
 /** Fired when init fails */
 export interface RfsInitErrorEvent {
   type: 'init:error';
   kind: string;
+  /**
+   * dataId of the failed space. For an input rejected by inputSchema it is
+   * derived from the raw input, and empty if that cannot be hashed.
+   */
   dataId: string;
   input: unknown;
   error: Error;
+  /** dataId of the space whose onInit mounted this one (absent for store-level calls) */
+  parentDataId?: string;
+  /** dataId of the space passed to store.ensure() at the top of this build tree */
+  rootDataId: string;
+}
+
+// ---------------------------------------------------------------------------
+// Dependency Events
+// ---------------------------------------------------------------------------
+
+/** Fired when dep() (or deps(), or static dependencies) mounts a dependency into a space being built */
+export interface RfsDepMountEvent {
+  type: 'dep:mount';
+  /** Kind of the space being built */
+  kind: string;
+  /** dataId of the space being built */
+  dataId: string;
+  /** dataId of the space passed to store.ensure() at the top of this build tree */
+  rootDataId: string;
+  /** Mount path (relative to space/) */
+  mountPath: string;
+  scope: 'shared' | 'local';
+  /** Selected export (absent for the default export) */
+  export?: string;
+  /** Kind of the mounted dependency */
+  depKind: string;
+  /** dataId of the mounted dependency */
+  depDataId: string;
+  /** Absolute path the mount points to */
+  target: string;
 }
 
 // ---------------------------------------------------------------------------
@@ -72,6 +139,8 @@ export interface RfsCommandDoneEvent {
   command: unknown;
   exports: Record<string, string>;
   metadata: Record<string, unknown>;
+  /** onCommand duration, command lock wait, and size of space/ afterwards */
+  stats: RfsBuildStats;
 }
 
 /** Fired when command execution fails */
@@ -83,6 +152,49 @@ export interface RfsCommandErrorEvent {
   error: Error;
 }
 
+/** Fired when command execution is cancelled via signal or timeout (the manifest is not updated) */
+export interface RfsCommandAbortedEvent {
+  type: 'command:aborted';
+  kind: string;
+  dataId: string;
+  command: unknown;
+  /** The abort reason (`signal.reason`) */
+  reason: unknown;
+}
+
+// ---------------------------------------------------------------------------
+// Space Events
+// ---------------------------------------------------------------------------
+
+/** Fired when a space is marked stale by store.invalidate() */
+export interface RfsSpaceInvalidatedEvent {
+  type: 'space:invalidated';
+  kind: string;
+  dataId: string;
+  path: string;
+  /** dataId of the space passed to store.invalidate() (equals dataId for the space itself) */
+  cause: string;
+}
+
+// ---------------------------------------------------------------------------
+// Log Event
+// ---------------------------------------------------------------------------
+
+/** Fired for every ctx.log call in onInit or onCommand */
+export interface RfsLogEvent {
+  type: 'log';
+  kind: string;
+  dataId: string;
+  level: RfsLogLevel;
+  message: string;
+  /** Structured fields passed with the message */
+  data?: Record<string, unknown>;
+  /** Hook that logged the entry */
+  phase: 'init' | 'command';
+  /** Timestamp (ISO 8601) */
+  timestamp: string;
+}
+
 // ---------------------------------------------------------------------------
 // Custom Event
 // ---------------------------------------------------------------------------
@@ -101,13 +213,18 @@ export interface RfsCustomEvent<T = unknown> {
 
 /** Union of all event types (received by store.on()) */
 export type RfsEvent =
+  | RfsInitQueuedEvent
   | RfsInitStartEvent
   | RfsInitCachedEvent
   | RfsInitDoneEvent
   | RfsInitErrorEvent
+  | RfsDepMountEvent
   | RfsCommandStartEvent
   | RfsCommandDoneEvent
   | RfsCommandErrorEvent
+  | RfsCommandAbortedEvent
+  | RfsSpaceInvalidatedEvent
+  | RfsLogEvent
   | RfsCustomEvent;
 
 /** Event type discriminator */
@@ -118,6 +235,7 @@ export type RfsCommandEventMap = {
   'command:start': RfsCommandStartEvent;
   'command:done': RfsCommandDoneEvent;
   'command:error': RfsCommandErrorEvent;
+  'command:aborted': RfsCommandAbortedEvent;
 };
 
 /** Unsubscribe function */
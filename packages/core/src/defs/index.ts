@@ -7,10 +7,19 @@
 // Constants
 export {
   RFS_MANIFEST_FILENAME,
+  RFS_COMMAND_LOG_FILENAME,
+  RFS_BUILD_LOG_FILENAME,
   RFS_SPACE_DIRNAME,
   RFS_LOCAL_DIRNAME,
   RFS_LOCAL_DEPS_DIRNAME,
   RFS_DATA_DIRNAME,
+  RFS_INDEX_DIRNAME,
+  RFS_PENDING_DIRNAME,
+  RFS_DEPENDENTS_DIRNAME,
+  RFS_STAGING_DIRNAME,
+  RFS_PREVIOUS_SPACE_DIRNAME,
+  RFS_SNAPSHOTS_DIRNAME,
+  RFS_SNAPSHOT_FILENAME,
   RFS_TEMP_PREFIX,
   RFS_HASH_ALGORITHM,
   RFS_MANIFEST_VERSION,
@@ -26,6 +35,14 @@ export type {
   RfsGrepOptions,
 } from './fs-types';
 
+// Schema
+export type {
+  RfsSchema,
+  RfsSchemaResult,
+  RfsSchemaIssue,
+  RfsSchemaPathSegment,
+} from './schema';
+
 // Adapter
 export type { RfsAdapter } from './adapter';
 
@@ -34,11 +51,18 @@ export type {
   RfsOrigin,
   RfsDependency,
   RfsCommandRecord,
+  RfsRevertRecord,
+  RfsCommandLogRecord,
+  RfsCommandLogState,
+  RfsLogLevel,
+  RfsLogEntry,
+  RfsBuildStats,
   RfsManifest,
 } from './manifest';
 
 // Event types
 export type {
+  RfsInitQueuedEvent,
   RfsInitStartEvent,
   RfsInitCachedEvent,
   RfsInitDoneEvent,
@@ -46,6 +70,10 @@ export type {
   RfsCommandStartEvent,
   RfsCommandDoneEvent,
   RfsCommandErrorEvent,
+  RfsCommandAbortedEvent,
+  RfsSpaceInvalidatedEvent,
+  RfsDepMountEvent,
+  RfsLogEvent,
   RfsCustomEvent,
   RfsEvent,
   RfsEventType,
@@ -57,14 +85,20 @@ export type {
 export type {
   RfsLocalApi,
   RfsDepOptions,
+  RfsDepsOptions,
+  RfsDepSpec,
+  RfsDepSpecs,
   RfsSpaceApi,
   RfsCommandSpaceApi,
   RfsInitResult,
   RfsCommandResult,
+  RfsLogFn,
+  RfsLogger,
   RfsOnInitContext,
   RfsOnCommandContext,
   RfsKindDef,
   RfsKind,
+  RfsAnyKind,
 } from './kind';
 
 // Locker types
@@ -73,12 +107,36 @@ export type {
   RfsLocker,
 } from './store';
 
+// Tracer types
+export type {
+  RfsSpanAttributes,
+  RfsSpan,
+  RfsTracer,
+} from './store';
+
 // Store & Space types
 export type {
   RfsSpaceBase,
   RfsSpaceWithCommands,
+  RfsSendOptions,
+  RfsPendingCommand,
+  RfsHistoryOptions,
+  RfsSnapshot,
+  RfsCommandLogOptions,
+  RfsBuildLogOptions,
   RfsSpace,
   RfsStoreOptions,
   RfsEnsureOptions,
+  RfsVerifyResult,
+  RfsKindStats,
+  RfsStoreStats,
+  RfsReplayResult,
+  RfsPlanNode,
+  RfsReplayDivergence,
+  RfsGcOptions,
+  RfsGcResult,
+  RfsDependent,
+  RfsInvalidateOptions,
+  RfsInvalidateResult,
   RfsStore,
 } from './store';
@@ -13,6 +13,8 @@ import type {
   RfsGlobOptions,
   RfsGrepOptions,
 } from './fs-types';
+import type { RfsSchema } from './schema';
+import type { RfsLogLevel } from './manifest';
 
 // ---------------------------------------------------------------------------
 // space.local API
@@ -68,6 +70,38 @@ export interface RfsDepOptions {
   extraRuntime?: Record<string, unknown>;
 }
 
+/** Options for space.deps() */
+export interface RfsDepsOptions {
+  /**
+   * Maximum number of dependencies resolved at the same time
+   *
+   * Must be a positive integer or `Infinity` (default: `Infinity`).
+   */
+  concurrency?: number;
+}
+
+/**
+ * Dependency specs for space.deps(), keyed by mount path
+ *
+ * Each entry is `[kind, input, options?]`, the arguments dep() takes after
+ * the mount path.
+ */
+export type RfsDepSpecs<TInputs extends Record<string, unknown>> = {
+  [K in keyof TInputs]: readonly [
+    kind: RfsKind<TInputs[K], never, never>,
+    input: TInputs[K],
+    options?: RfsDepOptions,
+  ];
+};
+
+/**
+ * One dependency spec of any kind, as returned by `RfsKind.dependencies`
+ *
+ * Every `RfsDepSpecs` entry is one; to have the inputs checked against
+ * their kinds, return specs typed as `RfsDepSpecs<...>`.
+ */
+export type RfsDepSpec = readonly [kind: RfsAnyKind, input: unknown, options?: RfsDepOptions];
+
 // ---------------------------------------------------------------------------
 // space API (onInit)
 // ---------------------------------------------------------------------------
@@ -116,6 +150,31 @@ export interface RfsSpaceApi<TRuntime = Record<string, unknown>> {
     input: TDepInput,
     options?: RfsDepOptions,
   ): Promise<string>;
+
+  /**
+   * Mount several dependencies concurrently
+   *
+   * Each entry is resolved as by dep(). Entries are recorded in
+   * `manifest.dependencies` in the order of `specs`, whatever order they
+   * finish in. If one fails, no further entries are started, the ones
+   * already running are awaited, and the first error is thrown.
+   *
+   * @param specs - `{ [mountPath]: [kind, input, options?] }`
+   * @param options - Optional concurrency limit
+   * @returns Absolute path to each dependency's exported directory, by mount path
+   *
+   * @example
+   * ```typescript
+   * const paths = await space.deps({
+   *   'vendor/react': [npmPackage, { name: 'react' }],
+   *   'vendor/zod': [npmPackage, { name: 'zod' }, { export: './lib' }],
+   * }, { concurrency: 4 });
+   * ```
+   */
+  deps<TInputs extends Record<string, unknown>>(
+    specs: RfsDepSpecs<TInputs>,
+    options?: RfsDepsOptions,
+  ): Promise<{ [K in keyof TInputs]: string }>;
 }
 
 // ---------------------------------------------------------------------------
@@ -125,11 +184,11 @@ export interface RfsSpaceApi<TRuntime = Record<string, unknown>> {
 /**
  * The `space` object available in onCommand
  *
- * Same as the onInit space, but **without dep()**.
+ * Same as the onInit space, but **without dep() or deps()**.
  * Dependencies can only be mounted during the onInit phase.
  */
 export type RfsCommandSpaceApi<TRuntime = Record<string, unknown>> =
-  Omit<RfsSpaceApi<TRuntime>, 'dep'>;
+  Omit<RfsSpaceApi<TRuntime>, 'dep' | 'deps'>;
 
 // ---------------------------------------------------------------------------
 // Init / Command Return Types
@@ -163,6 +222,21 @@ export type RfsCommandResult = {
   metadata?: Record<string, unknown>;
 } | void;
 
+// ---------------------------------------------------------------------------
+// ctx.log
+// ---------------------------------------------------------------------------
+
+/** Logs one message at a level, with optional structured fields */
+export type RfsLogFn = (message: string, data?: Record<string, unknown>) => void;
+
+/**
+ * Structured logger passed to onInit and onCommand
+ *
+ * Every call emits a `log` event (captured by store.on()) and, with
+ * `RfsStoreOptions.buildLog`, is kept in the space's build log.
+ */
+export type RfsLogger = Record<RfsLogLevel, RfsLogFn>;
+
 // ---------------------------------------------------------------------------
 // onInit / onCommand Context
 // ---------------------------------------------------------------------------
@@ -171,6 +245,7 @@ export type RfsCommandResult = {
 export interface RfsOnInitContext<
   TInput = unknown,
   TRuntime = Record<string, unknown>,
+  TEvent = unknown,
 > {
   /** Input data */
   input: TInput;
@@ -181,14 +256,18 @@ export interface RfsOnInitContext<
   /** Abort signal */
   signal: AbortSignal;
 
-  /** Emit a custom event (captured by store.on()) */
-  emit: (payload: unknown) => void;
+  /** Emit a custom event (captured by store.on() and store.onCustom()) */
+  emit: (payload: TEvent) => void;
+
+  /** Structured logger (`log.info('fetched', { bytes })`) */
+  log: RfsLogger;
 }
 
 /** Context passed to onCommand */
 export interface RfsOnCommandContext<
   TCommand = unknown,
   TRuntime = Record<string, unknown>,
+  TEvent = unknown,
 > {
   /** Command data */
   command: TCommand;
@@ -205,8 +284,11 @@ export interface RfsOnCommandContext<
   /** Abort signal */
   signal: AbortSignal;
 
-  /** Emit a custom event */
-  emit: (payload: unknown) => void;
+  /** Emit a custom event (also delivered to space.onCustom()) */
+  emit: (payload: TEvent) => void;
+
+  /** Structured logger (`log.info('applied', { files })`) */
+  log: RfsLogger;
 }
 
 // ---------------------------------------------------------------------------
@@ -223,10 +305,21 @@ export interface RfsKindDef<
   TInput = unknown,
   TCommand = never,
   TRuntime = Record<string, unknown>,
+  TEvent = unknown,
 > {
   /** Unique Kind identifier */
   kind: string;
 
+  /**
+   * Recipe version
+   *
+   * Folded into the dataId and recorded in the origin. Bump it whenever a
+   * change to onInit/onCommand should stop reusing spaces built by the
+   * previous implementation. Spaces of older versions stay on disk and can
+   * still be looked up with `store.find({ kind, input, version })`.
+   */
+  version?: string | number;
+
   /**
    * Custom cache key derivation function
    *
@@ -235,12 +328,60 @@ export interface RfsKindDef<
    */
   cacheKey?: (input: TInput) => Record<string, unknown>;
 
+  /**
+   * Static dependencies, derived from the input alone
+   *
+   * Mounted as by `space.deps()` before onInit runs, and listed ahead of
+   * dependencies mounted by onInit in `manifest.dependencies`. Unlike
+   * dep() calls inside onInit, `store.plan()` can see them without
+   * building anything.
+   *
+   * @example
+   * ```typescript
+   * dependencies: (input) => ({
+   *   'vendor/lib': [lib, { name: input.lib }],
+   * }),
+   * ```
+   */
+  dependencies?: (input: TInput) => Record<string, RfsDepSpec>;
+
+  /**
+   * Runtime schema for inputs (any Standard Schema validator)
+   *
+   * `ensure()` and `space.dep()` validate the input before the dataId is
+   * computed, and use the schema's output (defaults, coercion) from then
+   * on, so equivalent inputs share one space. A rejected input emits
+   * `init:error` and throws `RfsValidationError` without running onInit.
+   */
+  inputSchema?: RfsSchema<TInput>;
+
+  /**
+   * Runtime schema for commands (any Standard Schema validator)
+   *
+   * `space.send()` validates each command before it is queued and passes
+   * the validated value to onCommand. A rejected command throws
+   * `RfsValidationError`; no command events are emitted for it.
+   */
+  commandSchema?: RfsSchema<TCommand>;
+
+  /**
+   * Run commands transactionally
+   *
+   * When true, onCommand works on a staging copy of `space/` (so
+   * `space.path` points at the copy). The copy replaces `space/` only if
+   * onCommand succeeds; on error or abort it is discarded and `space/` is
+   * left exactly as before. Costs one copy of `space/` per command.
+   *
+   * Default: `false`
+   */
+  transactional?: boolean;
+
   /** Initialization hook */
-  onInit: (ctx: RfsOnInitContext<TInput, TRuntime>) => Promise<RfsInitResult | void>;
+  onInit: (ctx: RfsOnInitContext<TInput, TRuntime, TEvent>) => Promise<RfsInitResult | void>;
 
   /** Command handler hook (optional — presence enables command capability) */
   onCommand?: (
-    ctx: RfsOnCommandContext<TCommand, TRuntime>,
+    ctx: RfsOnCommandContext<TCommand, TRuntime, TEvent>,
   ) => Promise<RfsCommandResult>;
 }
 
@@ -253,25 +394,55 @@ export interface RfsKindDef<
  *
  * Returned by defineKind(), passed as the first argument to store.ensure().
  * Carries generic type information so that store.ensure can infer the correct RfsSpace type.
+ * TEvent is the payload type of the kind's custom events (see emit()).
  */
 export interface RfsKind<
   TInput = unknown,
   TCommand = never,
   TRuntime = Record<string, unknown>,
+  TEvent = unknown,
 > {
   /** Unique Kind identifier */
   readonly kind: string;
 
+  /** Recipe version */
+  readonly version?: string | number;
+
   /** Cache key derivation function */
   readonly cacheKey?: (input: TInput) => Record<string, unknown>;
 
+  /** Static dependencies mounted before onInit */
+  readonly dependencies?: (input: TInput) => Record<string, RfsDepSpec>;
+
+  /**
+   * Runtime schema for inputs
+   *
+   * Typed loosely so TInput stays contravariant; defineKind checks the
+   * output type against TInput.
+   */
+  readonly inputSchema?: RfsSchema;
+
+  /** Runtime schema for commands (typed loosely, like inputSchema) */
+  readonly commandSchema?: RfsSchema;
+
+  /** Run commands on a staging copy of space/ */
+  readonly transactional?: boolean;
+
   /** Initialization hook */
   readonly onInit: (
-    ctx: RfsOnInitContext<TInput, TRuntime>,
+    ctx: RfsOnInitContext<TInput, TRuntime, TEvent>,
   ) => Promise<RfsInitResult | void>;
 
   /** Command handler hook */
   readonly onCommand?: (
-    ctx: RfsOnCommandContext<TCommand, TRuntime>,
+    ctx: RfsOnCommandContext<TCommand, TRuntime, TEvent>,
   ) => Promise<RfsCommandResult>;
 }
+
+/**
+ * A kind of any input, command, runtime, and event type
+ *
+ * RfsKind is contravariant in TInput, TCommand, and TRuntime, so `never`
+ * there accepts every kind. TEvent is covariant and can still be inferred.
+ */
+export type RfsAnyKind<TEvent = unknown> = RfsKind<never, never, never, TEvent>;
@@ -14,7 +14,7 @@ import type { RFS_MANIFEST_VERSION } from './constants';
  * Origin definition
  *
  * Describes how a space was produced. Used for lookup and regeneration.
- * The dataId is deterministically computed from `kind + (cacheKey ?? input)`.
+ * The dataId is deterministically computed from `kind + version + (cacheKey ?? input)`.
  */
 export interface RfsOrigin {
   /** Kind identifier */
@@ -25,6 +25,9 @@ export interface RfsOrigin {
 
   /** Cache key (optional, defaults to input) */
   cacheKey?: Record<string, unknown>;
+
+  /** Kind version (absent for unversioned kinds) */
+  version?: string | number;
 }
 
 // ---------------------------------------------------------------------------
@@ -68,10 +71,18 @@ export interface RfsDependency {
  * Command history record
  *
  * Records commands sent to onCommand via `space.send()` and their results.
+ * Stored one per line in the space's command log (`.radium-fs-commands.jsonl`).
  */
-export interface RfsCommandRecord {
+export interface RfsCommandRecord<TCommand = unknown> {
+  /**
+   * Sequence number (starts at 1, increases by one per command or revert on
+   * the space). Legacy records kept in `RfsManifest.commands` have none; they are numbered
+   * by position when read or moved into the command log.
+   */
+  seq: number;
+
   /** Command data */
-  command: unknown;
+  command: TCommand;
 
   /** Execution timestamp (ISO 8601) */
   executedAt: string;
@@ -85,6 +96,88 @@ export interface RfsCommandRecord {
   };
 }
 
+/**
+ * Revert record
+ *
+ * Written to the command log by `space.revert()`, so history() and replay
+ * see the space return to the state it had after record `toSeq`.
+ */
+export interface RfsRevertRecord {
+  /** Sequence number (shared with command records) */
+  seq: number;
+
+  /** Label of the restored snapshot */
+  revert: string;
+
+  /** Sequence number the snapshot was taken at (0 before any command) */
+  toSeq: number;
+
+  /** Revert timestamp (ISO 8601) */
+  executedAt: string;
+}
+
+/** A command log line: a command, or a revert (tell them apart with `'revert' in record`) */
+export type RfsCommandLogRecord<TCommand = unknown> = RfsCommandRecord<TCommand> | RfsRevertRecord;
+
+/** Command log bookkeeping kept in the manifest */
+export interface RfsCommandLogState {
+  /** Sequence number of the latest record */
+  lastSeq: number;
+
+  /** Number of records currently in the log file (drops after compaction) */
+  entries: number;
+}
+
+// ---------------------------------------------------------------------------
+// Build Log
+// ---------------------------------------------------------------------------
+
+/** Severity of a ctx.log entry, from least to most severe */
+export type RfsLogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/**
+ * An entry written through ctx.log in onInit or onCommand
+ *
+ * Delivered as a `log` event, and stored one per line in the space's build
+ * log (`.radium-fs-build-log.jsonl`) when `RfsStoreOptions.buildLog` is set.
+ */
+export interface RfsLogEntry {
+  level: RfsLogLevel;
+  message: string;
+
+  /** Structured fields passed with the message (JSON-serializable) */
+  data?: Record<string, unknown>;
+
+  /** Hook that logged the entry */
+  phase: 'init' | 'command';
+
+  /** Timestamp (ISO 8601) */
+  timestamp: string;
+}
+
+// ---------------------------------------------------------------------------
+// Build Stats
+// ---------------------------------------------------------------------------
+
+/**
+ * Timing and size of a build or command
+ *
+ * Sizes cover space/ only; dependency mounts belong to their own spaces.
+ */
+export interface RfsBuildStats {
+  /** Milliseconds spent building (static dependencies, dep() calls and onInit) or running onCommand */
+  durationMs: number;
+
+  /** Milliseconds spent waiting for the lock before the cache check or command */
+  lockWaitMs: number;
+
+  /** Number of files in space/ afterwards */
+  fileCount: number;
+
+  /** Total size of those files in bytes */
+  byteSize: number;
+}
+
 // ---------------------------------------------------------------------------
 // Manifest
 // ---------------------------------------------------------------------------
@@ -114,12 +207,47 @@ export interface RfsManifest {
   /** Dependency list */
   dependencies?: RfsDependency[];
 
-  /** Command history */
-  commands?: RfsCommandRecord[];
+  /**
+   * Command history (legacy)
+   *
+   * Spaces written by earlier versions kept their command records here. The
+   * next command moves them into the command log; read history through
+   * `space.history()` instead.
+   */
+  commands?: Omit<RfsCommandRecord, 'seq'>[];
+
+  /** State of the command log (absent until the first command) */
+  commandLog?: RfsCommandLogState;
 
   /** User-defined metadata */
   metadata: Record<string, unknown>;
 
+  /**
+   * Content digest of space/ (SHA-256 Merkle tree, lowercase hex)
+   *
+   * Recorded when the space is built and after every command. Dependency
+   * mounts are hashed by mount path only. Absent for spaces built before
+   * digests were recorded.
+   */
+  contentDigest?: string;
+
+  /**
+   * Stats of the build that produced the space
+   *
+   * `fileCount` and `byteSize` are refreshed after every command and revert;
+   * the timings stay those of the build. Absent for spaces built before
+   * stats were recorded.
+   */
+  stats?: RfsBuildStats;
+
+  /**
+   * Invalidation timestamp (ISO 8601)
+   *
+   * Set by `store.invalidate()`. An invalidated space is treated as a cache
+   * miss and rebuilt by the next `ensure()`.
+   */
+  invalidatedAt?: string;
+
   /** Creation timestamp (ISO 8601) */
   createdAt: string;
 
@@ -0,0 +1,51 @@
+/**
+ * radium-fs schema types
+ *
+ * A minimal validator interface compatible with Standard Schema v1
+ * (https://standardschema.dev), so schemas from Zod, Valibot, ArkType and
+ * others can be passed to defineKind without an adapter.
+ */
+
+// ---------------------------------------------------------------------------
+// Issues
+// ---------------------------------------------------------------------------
+
+/** A path segment of a validation issue (Standard Schema form) */
+export interface RfsSchemaPathSegment {
+  readonly key: PropertyKey;
+}
+
+/** A single validation problem */
+export interface RfsSchemaIssue {
+  /** Human-readable description */
+  readonly message: string;
+
+  /** Location of the problem within the validated value */
+  readonly path?: ReadonlyArray<PropertyKey | RfsSchemaPathSegment>;
+}
+
+/** Result of RfsSchema validation: the (possibly transformed) value, or issues */
+export type RfsSchemaResult<TOutput> =
+  | { readonly value: TOutput; readonly issues?: undefined }
+  | { readonly issues: ReadonlyArray<RfsSchemaIssue> };
+
+// ---------------------------------------------------------------------------
+// Schema
+// ---------------------------------------------------------------------------
+
+/**
+ * Runtime validator
+ *
+ * Structurally identical to `StandardSchemaV1<TInput, TOutput>`. radium-fs
+ * only calls `validate`; `version`, `vendor`, and `types` are informational.
+ */
+export interface RfsSchema<TOutput = unknown, TInput = unknown> {
+  readonly '~standard': {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (
+      value: unknown,
+    ) => RfsSchemaResult<TOutput> | Promise<RfsSchemaResult<TOutput>>;
+    readonly types?: { readonly input: TInput; readonly output: TOutput };
+  };
+}
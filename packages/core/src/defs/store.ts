@@ -7,16 +7,18 @@
  */
 
 import type { RfsAdapter } from './adapter';
-import type { RfsManifest, RfsOrigin } from './manifest';
-import type { RfsKind } from './kind';
+import type { RfsCommandLogRecord, RfsLogEntry, RfsLogLevel, RfsManifest, RfsOrigin } from './manifest';
+import type { RfsAnyKind, RfsKind } from './kind';
 import type {
   RfsEvent,
   RfsCommandEventMap,
   RfsUnsubscribe,
+  RfsInitQueuedEvent,
   RfsInitStartEvent,
   RfsInitCachedEvent,
   RfsInitDoneEvent,
   RfsInitErrorEvent,
+  RfsCustomEvent,
 } from './events';
 
 // ---------------------------------------------------------------------------
@@ -52,16 +54,156 @@ export interface RfsSpaceBase {
 // RfsSpace — command capability (only for kinds with onCommand)
 // ---------------------------------------------------------------------------
 
+/** Options for space.send */
+export interface RfsSendOptions {
+  /**
+   * Abort signal to cancel the command
+   *
+   * Propagated to onCommand context.signal. Cancellation is cooperative:
+   * send() waits for onCommand to settle, then rejects, emits
+   * `command:aborted`, and leaves the manifest untouched.
+   */
+  signal?: AbortSignal;
+
+  /** Abort the command after this many milliseconds */
+  timeoutMs?: number;
+}
+
+/** A command accepted by space.send() that has not settled yet */
+export interface RfsPendingCommand<TCommand = unknown> {
+  /** Command data */
+  command: TCommand;
+
+  /**
+   * - `queued`: waiting for earlier commands on the same space
+   * - `running`: onCommand is executing
+   */
+  status: 'queued' | 'running';
+
+  /** Time send() was called (ISO 8601) */
+  enqueuedAt: string;
+}
+
+/** Options for space.history */
+export interface RfsHistoryOptions {
+  /** Return at most this many records (the most recent ones) */
+  limit?: number;
+
+  /** Only return records with a sequence number greater than this */
+  since?: number;
+}
+
+/** A saved state of a space, created by space.snapshot() */
+export interface RfsSnapshot {
+  /** Snapshot label */
+  label: string;
+
+  /** Sequence number of the latest record when the snapshot was taken (0 before any command) */
+  seq: number;
+
+  /** Exports mapping at snapshot time (paths relative to space/) */
+  exports: Record<string, string>;
+
+  /** Metadata at snapshot time */
+  metadata: Record<string, unknown>;
+
+  /** Content digest of space/ at snapshot time */
+  contentDigest: string;
+
+  /** Creation timestamp (ISO 8601) */
+  createdAt: string;
+}
+
 /** Command capability for Space (present when kind has an onCommand hook) */
-export interface RfsSpaceWithCommands<TCommand> {
+export interface RfsSpaceWithCommands<TCommand, TEvent = unknown> {
   /**
    * Send a command
    *
-   * The command is passed to the onCommand hook.
+   * The command is passed to the onCommand hook. Commands on the same
+   * space run one at a time in call order (serialized in-process, and
+   * across processes through the store locker under key `cmd:{dataId}`),
+   * so each onCommand sees the manifest written by the previous one.
    *
+   * Each command is persisted under `.radium-fs-pending/` until it settles,
+   * so other processes list it (see pendingCommands()) and one left behind
+   * by a process that exited can be run again (see resumeCommands()).
+   * Across processes, commands wait in lock order rather than call order.
+   * Calling send(), snapshot(), or revert() on a space from inside its own
+   * onCommand rejects, since it would wait for itself.
+   *
+   * @param command - Command data
+   * @param options - Optional abort signal and timeout
    * @returns Updated exports and metadata
    */
-  send(command: TCommand): Promise<{
+  send(command: TCommand, options?: RfsSendOptions): Promise<{
+    exports: Record<string, string>;
+    metadata: Record<string, unknown>;
+  }>;
+
+  /**
+   * List commands sent to this space that have not settled yet
+   *
+   * Read from `.radium-fs-pending/`, so it covers every process sharing the
+   * store root, including commands left behind by a process that exited.
+   * Commands of one process are listed in send order.
+   *
+   * @returns Snapshot of the queued and running commands
+   */
+  pendingCommands(): Promise<RfsPendingCommand<TCommand>[]>;
+
+  /**
+   * Run again the pending commands whose sender exited before they settled
+   *
+   * A command is left pending when its process exits while it is queued or
+   * running; it never reached the command log. Commands whose sender is
+   * still alive (its `pending:{id}` lock is held) are skipped. Commands run
+   * one after another, in the order they were sent; the first failure
+   * rejects, leaving the commands after it pending. A command interrupted
+   * while running runs from the start again, on the space/ it left behind
+   * (untouched, for a transactional kind).
+   *
+   * @returns Number of commands run
+   */
+  resumeCommands(): Promise<number>;
+
+  /**
+   * Read the command history from the command log
+   *
+   * Records are returned oldest first, reverts (see revert()) included.
+   * Records dropped by compaction (see `RfsStoreOptions.commandLog`) are no
+   * longer available.
+   *
+   * @param options - Optional limit and sequence cursor
+   * @returns Command and revert records in execution order
+   */
+  history(options?: RfsHistoryOptions): Promise<RfsCommandLogRecord[]>;
+
+  /**
+   * Save the current space/ tree, exports, and metadata under a label
+   *
+   * Waits for queued commands, like send(). Dependency mounts are not
+   * copied (they never change after onInit). An existing snapshot with the
+   * same label is replaced.
+   *
+   * @param label - Snapshot name (not empty, `.`, or `..`, and without `/`)
+   * @returns The saved snapshot
+   * @throws If the label is not a valid snapshot name
+   */
+  snapshot(label: string): Promise<RfsSnapshot>;
+
+  /**
+   * Restore space/, exports, and metadata from a snapshot
+   *
+   * Waits for queued commands, like send(). The restored tree is swapped in
+   * the same way as a transactional command. The command log is not
+   * rewound: a revert record is appended instead, so history() lists the
+   * commands sent after the snapshot followed by the revert.
+   *
+   * @param label - Snapshot name
+   * @returns Restored exports (absolute paths) and metadata
+   * @throws If the label is invalid or no snapshot with this label exists
+   */
+  revert(label: string): Promise<{
     exports: Record<string, string>;
     metadata: Record<string, unknown>;
   }>;
@@ -79,9 +221,11 @@ export interface RfsSpaceWithCommands<TCommand> {
   /**
    * Listen to custom events (emitted via emit() in onCommand)
    *
+   * The payload is typed by the kind's TEvent parameter.
+   *
    * @returns Unsubscribe function
    */
-  onCustom<T = unknown>(
+  onCustom<T = TEvent>(
     handler: (payload: T) => void,
   ): RfsUnsubscribe;
 }
@@ -97,9 +241,9 @@ export interface RfsSpaceWithCommands<TCommand> {
  * - If the Kind has no onCommand (TCommand = never): base properties only
  * - If the Kind has onCommand: includes send() / on() / onCustom()
  */
-export type RfsSpace<TCommand = never> = [TCommand] extends [never]
+export type RfsSpace<TCommand = never, TEvent = unknown> = [TCommand] extends [never]
   ? RfsSpaceBase
-  : RfsSpaceBase & RfsSpaceWithCommands<TCommand>;
+  : RfsSpaceBase & RfsSpaceWithCommands<TCommand, TEvent>;
 
 // ---------------------------------------------------------------------------
 // Locker — optional distributed lock provider
@@ -119,9 +263,10 @@ export interface RfsLockHandle {
 /**
  * Distributed lock provider
  *
- * When provided via `createStore({ locker })`, the store acquires a lock
- * on the dataId before checking cache and building a space. This prevents
- * redundant builds when multiple processes or machines share the same store.
+ * The store acquires a lock on the dataId before checking cache and building
+ * a space. By default an in-process `memoryLocker()` is used, which prevents
+ * redundant builds within one process; provide a locker via
+ * `createStore({ locker })` to extend this across processes or machines.
  *
  * radium-fs is already safe without a locker (atomic rename ensures no
  * corrupt spaces), but concurrent builds of the same space waste resources.
@@ -143,6 +288,65 @@ export interface RfsLocker {
   acquire(key: string, signal?: AbortSignal): Promise<RfsLockHandle>;
 }
 
+// ---------------------------------------------------------------------------
+// Tracer — optional span instrumentation
+// ---------------------------------------------------------------------------
+
+/** Span attribute values (the subset OpenTelemetry attributes share) */
+export type RfsSpanAttributes = Record<string, string | number | boolean>;
+
+/**
+ * A span started by RfsTracer
+ *
+ * A structural subset of the OpenTelemetry `Span`, so OpenTelemetry spans
+ * can be returned as-is.
+ */
+export interface RfsSpan {
+  /** Attach an attribute once it is known (e.g. the dataId after validation) */
+  setAttribute(key: string, value: string | number | boolean): unknown;
+
+  /** Record the error that made the span's operation fail */
+  recordException(exception: Error): unknown;
+
+  /** End the span; called exactly once */
+  end(): void;
+}
+
+/**
+ * Tracing integration point
+ *
+ * The store starts a span for every ensure (nested under the `rfs.dep`
+ * span of the parent's dep() call), every onCommand, each lock acquisition,
+ * and the manifest reads and writes of builds and commands. Parents are
+ * passed explicitly rather than through an ambient context, which keeps
+ * core free of tracing dependencies; an adapter for OpenTelemetry sets
+ * the parent on its own context:
+ *
+ * @example
+ * ```typescript
+ * import { trace, context, type Span } from '@opentelemetry/api';
+ *
+ * const otel = trace.getTracer('radium-fs');
+ * const tracer: RfsTracer = {
+ *   startSpan: (name, attributes, parent) => otel.startSpan(
+ *     name,
+ *     { attributes },
+ *     parent ? trace.setSpan(context.active(), parent as Span) : undefined,
+ *   ),
+ * };
+ * ```
+ */
+export interface RfsTracer {
+  /**
+   * Start a span
+   *
+   * @param name - Span name (`rfs.ensure`, `rfs.dep`, `rfs.command`, `rfs.lock`, `rfs.manifest.read`, `rfs.manifest.write`)
+   * @param attributes - Initial attributes (`rfs.kind`, `rfs.data_id`, ...)
+   * @param parent - Enclosing span, absent for top-level operations
+   */
+  startSpan(name: string, attributes: RfsSpanAttributes, parent?: RfsSpan): RfsSpan;
+}
+
 // ---------------------------------------------------------------------------
 // Store Options
 // ---------------------------------------------------------------------------
@@ -161,13 +365,82 @@ export interface RfsStoreOptions {
   /**
    * Optional distributed lock provider
    *
-   * When provided, the store acquires an exclusive lock on the dataId before
-   * the cache-check + build sequence in `ensure()`, preventing redundant
-   * builds across multiple processes or machines.
+   * The store acquires an exclusive lock on the dataId before the
+   * cache-check + build sequence in `ensure()`, so concurrent calls build
+   * once and the others receive the cached result.
    *
-   * Not needed for single-process usage.
+   * Default: `memoryLocker()` (in-process only). Provide a distributed
+   * implementation when multiple processes or machines share the store.
    */
   locker?: RfsLocker;
+
+  /**
+   * Kinds known to the store up front
+   *
+   * The store remembers every kind passed to `ensure()`. Operations that
+   * start from an origin alone (such as `invalidate({ rebuild: true })`)
+   * can only rebuild spaces whose kind is known; list kinds here to make
+   * them available before the first `ensure()`.
+   */
+  kinds?: RfsAnyKind[];
+
+  /**
+   * Reject inputs and cache keys holding values without a canonical encoding
+   *
+   * By default functions and symbols are hashed as `null` and class
+   * instances (other than Date, Map, Set, and typed arrays) as plain
+   * objects, so inputs that differ only in such values share a dataId. With
+   * `true`, ensure() throws naming the value's path instead. Default: false
+   */
+  strictInputs?: boolean;
+
+  /** Command log retention (default: keep every record) */
+  commandLog?: RfsCommandLogOptions;
+
+  /**
+   * Maximum number of onInit builds running at once in this store
+   *
+   * Further cache misses wait (emitting `init:queued`) and start by
+   * descending `RfsEnsureOptions.priority`. A build waiting on its own
+   * dependencies frees its slot meanwhile. Must be a positive integer or
+   * `Infinity` (default: `Infinity`, no queueing).
+   */
+  concurrency?: number;
+
+  /**
+   * Tracer receiving spans for builds, commands, locks, and manifest I/O
+   *
+   * Default: a no-op tracer.
+   */
+  tracer?: RfsTracer;
+
+  /**
+   * Keep ctx.log entries in a build log next to each manifest
+   *
+   * Entries of a build are written with the space; entries of a command are
+   * appended once it settles, whether it succeeded or not. Read them back
+   * with `store.buildLog()`. `true` keeps every level (default: not kept;
+   * `log` events are emitted either way).
+   */
+  buildLog?: boolean | RfsBuildLogOptions;
+}
+
+/** Command log retention options */
+export interface RfsCommandLogOptions {
+  /**
+   * Number of most recent command records to retain per space
+   *
+   * The log stays append-only until it holds twice this many records, then
+   * it is compacted down to the most recent `maxEntries`. Sequence numbers
+   * are never reused.
+   */
+  maxEntries?: number;
+}
+
+/** Build log options */
+export interface RfsBuildLogOptions {
+  /** Lowest level kept (default: `'debug'`, everything) */
+  level?: RfsLogLevel;
 }
 
 // ---------------------------------------------------------------------------
@@ -192,6 +465,28 @@ export interface RfsEnsureOptions {
    */
   cache?: boolean;
 
+  /**
+   * Verify the content of a cached space before reusing it
+   *
+   * - `false` (default): any space with a manifest is a cache hit
+   * - `true`: recompute the content digest of space/ and rebuild on mismatch
+   *
+   * Only the ensured space is verified, not its dependencies. A command
+   * running on the space finishes before it is checked.
+   */
+  verify?: boolean;
+
+  /**
+   * Scheduling priority when `RfsStoreOptions.concurrency` is set
+   *
+   * Queued builds with a higher priority start first (default 0).
+   * Dependencies mounted by the build inherit its priority.
+   */
+  priority?: number;
+
+  /** Called when the build has to wait for a slot */
+  onQueued?: (ctx: Omit<RfsInitQueuedEvent, 'type'>) => void;
+
   /** Called when init begins (cache miss) */
   onStart?: (ctx: Omit<RfsInitStartEvent, 'type'>) => void;
 
@@ -205,6 +500,242 @@ export interface RfsEnsureOptions {
   onError?: (ctx: Omit<RfsInitErrorEvent, 'type'>) => void;
 }
 
+// ---------------------------------------------------------------------------
+// Planning
+// ---------------------------------------------------------------------------
+
+/** A space in the DAG returned by store.plan */
+export interface RfsPlanNode {
+  /** Kind identifier */
+  kind: string;
+
+  /** Deterministic unique identifier */
+  dataId: string;
+
+  /** Input, after the kind's inputSchema (if any) */
+  input: unknown;
+
+  /**
+   * What ensure() would do with this space
+   * - `cached`: reuse the existing space
+   * - `missing`: build it
+   * - `invalidated`: rebuild it (the existing space was marked stale)
+   */
+  status: 'cached' | 'missing' | 'invalidated';
+
+  /** Mount path in the parent (absent for the root) */
+  mountPath?: string;
+
+  /** Dependency scope in the parent (absent for the root) */
+  scope?: 'shared' | 'local';
+
+  /**
+   * Static dependencies mounted when this space is built
+   *
+   * Absent for cached spaces and for kinds without `dependencies`.
+   * Dependencies that onInit mounts with dep() cannot be planned.
+   */
+  dependencies?: RfsPlanNode[];
+}
+
+// ---------------------------------------------------------------------------
+// Verification
+// ---------------------------------------------------------------------------
+
+/** A difference found by store.replay */
+export interface RfsReplayDivergence {
+  /** Sequence number of the command that diverged (absent for the final state) */
+  seq?: number;
+
+  /**
+   * What differs
+   * - `error`: the command threw during replay (replay stops here)
+   * - `contentDigest`: the replayed space/ content differs (final state only)
+   */
+  field: 'exports' | 'metadata' | 'contentDigest' | 'error';
+
+  /** Recorded value */
+  expected: unknown;
+
+  /** Replayed value (the error message for `error`) */
+  actual: unknown;
+}
+
+/** Return value of store.replay */
+export interface RfsReplayResult {
+  /** True if no divergence was found */
+  ok: boolean;
+
+  /** Number of commands re-applied successfully */
+  replayed: number;
+
+  /** Differences in command order, followed by final-state differences */
+  divergences: RfsReplayDivergence[];
+}
+
+/** Return value of store.verify */
+export interface RfsVerifyResult {
+  /** Whether the content of space/ matches the recorded digest */
+  ok: boolean;
+
+  /** Digest recorded in the manifest (absent for spaces built without one, which always verify) */
+  expected?: string;
+
+  /** Digest of space/ as it is on disk now */
+  actual: string;
+}
+
+// ---------------------------------------------------------------------------
+// Stats
+// ---------------------------------------------------------------------------
+
+/** Totals over a set of spaces (see RfsBuildStats for the fields) */
+export interface RfsKindStats {
+  /** Number of spaces */
+  spaces: number;
+
+  /** Spaces built before stats were recorded (counted in `spaces` only) */
+  unmeasured: number;
+
+  durationMs: number;
+  lockWaitMs: number;
+  fileCount: number;
+  byteSize: number;
+}
+
+/** Return value of store.stats */
+export interface RfsStoreStats {
+  /** Totals per kind */
+  kinds: Record<string, RfsKindStats>;
+
+  /** Totals over all listed spaces */
+  total: RfsKindStats;
+}
+
+// ---------------------------------------------------------------------------
+// Garbage Collection
+// ---------------------------------------------------------------------------
+
+/** Options for store.gc */
+export interface RfsGcOptions {
+  /**
+   * Origins of the spaces to keep
+   *
+   * Every space reachable from these roots through `manifest.dependencies`
+   * (transitively, including dependencies of local-scope children) is kept.
+   */
+  roots: RfsOrigin[];
+
+  /**
+   * Report what would be collected without removing anything
+   *
+   * Default: `false`
+   */
+  dryRun?: boolean;
+
+  /**
+   * Keep `.tmp-*` build directories modified within this many milliseconds
+   *
+   * Temp directories of builds in flight in this store are always kept;
+   * this protects builds running in other processes that share the root.
+   * Use a value longer than your slowest build.
+   *
+   * Default: `3_600_000` (one hour)
+   */
+  tempGraceMs?: number;
+}
+
+/** Return value of store.gc */
+export interface RfsGcResult {
+  /** dataIds of spaces not reachable from any root (removed unless dryRun) */
+  unreachable: string[];
+
+  /**
+   * Absolute paths of orphaned `.tmp-*` build directories, including those
+   * left inside `.radium-fs-local-deps/` of kept spaces (removed unless dryRun)
+   */
+  orphanedTemps: string[];
+
+  /**
+   * Absolute data directories of reachable spaces whose manifest could not
+   * be read. Their dependencies are unknown, so while any are reported no
+   * space is removed (temp directories still are).
+   */
+  unreadable: string[];
+
+  /** Whether this was a dry run */
+  dryRun: boolean;
+}
+
+// ---------------------------------------------------------------------------
+// Dependents
+// ---------------------------------------------------------------------------
+
+/**
+ * A space that mounts another space
+ *
+ * Returned by `store.dependents()`.
+ */
+export interface RfsDependent {
+  /** dataId of the dependent space */
+  dataId: string;
+
+  /** Kind identifier of the dependent space */
+  kind: string;
+
+  /** Origin of the dependent space */
+  origin: RfsOrigin;
+
+  /** Absolute path to the dependent's space directory */
+  path: string;
+
+  /**
+   * Where the dependent itself is stored
+   * - `shared`: in the global .radium-fs-data/ directory
+   * - `local`: inside another space's .radium-fs-local-deps/ directory
+   */
+  scope: 'shared' | 'local';
+
+  /** Mount paths (relative to the dependent's space/) at which the target is mounted */
+  mountPaths: string[];
+}
+
+// ---------------------------------------------------------------------------
+// Invalidation
+// ---------------------------------------------------------------------------
+
+/** Options for store.invalidate */
+export interface RfsInvalidateOptions {
+  /**
+   * Also invalidate every transitive dependent (found via `store.dependents()`)
+   *
+   * Spaces that hold the invalidated space as a local-scope child are
+   * invalidated as well, since the child lives inside them.
+   *
+   * Default: `false`
+   */
+  cascade?: boolean;
+
+  /**
+   * Rebuild the invalidated spaces immediately instead of on the next `ensure()`
+   *
+   * Only shared spaces whose kind is known to the store are rebuilt; the
+   * rest stay marked. Local-scope children are rebuilt with their owner.
+   *
+   * Default: `false`
+   */
+  rebuild?: boolean;
+}
+
+/** Return value of store.invalidate */
+export interface RfsInvalidateResult {
+  /** dataIds of the spaces marked stale, in cascade order */
+  invalidated: string[];
+
+  /** dataIds of the spaces rebuilt, dependencies first (only with `rebuild: true`) */
+  rebuilt: string[];
+}
+
 // ---------------------------------------------------------------------------
 // Store
 // ---------------------------------------------------------------------------
@@ -229,11 +760,27 @@ export interface RfsStore {
    * - No onCommand: RfsSpaceBase
    * - Has onCommand: RfsSpaceBase & RfsSpaceWithCommands<TCommand>
    */
-  ensure<TInput, TCommand, TRuntime>(
-    kind: RfsKind<TInput, TCommand, TRuntime>,
+  ensure<TInput, TCommand, TRuntime, TEvent>(
+    kind: RfsKind<TInput, TCommand, TRuntime, TEvent>,
     input: TInput,
     options?: RfsEnsureOptions,
-  ): Promise<RfsSpace<TCommand>>;
+  ): Promise<RfsSpace<TCommand, TEvent>>;
+
+  /**
+   * Report what ensure() would do, without building anything
+   *
+   * Computes the dataId, checks the cache, and for spaces that would be
+   * built walks the kind's static `dependencies` recursively. onInit is
+   * never called and no events are emitted.
+   *
+   * @returns The planned DAG rooted at the given space
+   * @throws RfsValidationError if an input is rejected by its kind's inputSchema
+   * @throws RfsCycleError if the static dependencies form a cycle
+   */
+  plan<TInput, TCommand, TRuntime>(
+    kind: RfsKind<TInput, TCommand, TRuntime>,
+    input: TInput,
+  ): Promise<RfsPlanNode>;
 
   /**
    * Subscribe to lifecycle events (init, command, custom)
@@ -242,6 +789,22 @@ export interface RfsStore {
    */
   on(handler: (event: RfsEvent) => void): RfsUnsubscribe;
 
+  /**
+   * Subscribe to custom events of every space of a kind
+   *
+   * Receives what emit() sends from onInit and onCommand, typed by the
+   * kind's TEvent parameter. Spaces are matched by kind name only: events
+   * of another kind object registered under the same name (such as another
+   * version of it) reach the handler too, so give kinds with different
+   * event types different names.
+   *
+   * @returns Unsubscribe function
+   */
+  onCustom<TEvent>(
+    kind: RfsAnyKind<TEvent>,
+    handler: (event: RfsCustomEvent<TEvent>) => void,
+  ): RfsUnsubscribe;
+
   /**
    * Find an existing space by origin
    *
@@ -263,4 +826,73 @@ export interface RfsStore {
    * List all spaces, optionally filtered by kind
    */
   list(kind?: string): Promise<RfsSpaceBase[]>;
+
+  /**
+   * Sum the recorded build stats of the spaces `list()` returns, per kind
+   *
+   * Reads manifests only; nothing is measured on disk.
+   */
+  stats(kind?: string): Promise<RfsStoreStats>;
+
+  /**
+   * Read the entries kept in a space's build log (see `RfsStoreOptions.buildLog`)
+   *
+   * @returns Entries from oldest to newest, or null if the space does not exist
+   */
+  buildLog(origin: RfsOrigin): Promise<RfsLogEntry[] | null>;
+
+  /**
+   * Check the content of a space against the digest recorded in its manifest
+   *
+   * @returns The verification result, or null if the space does not exist
+   */
+  verify(origin: RfsOrigin): Promise<RfsVerifyResult | null>;
+
+  /**
+   * Find every space that mounts the given space as a shared dependency
+   *
+   * Backed by a reverse index maintained when spaces are built, and filled
+   * from the manifests on disk the first time it is missing (stores written
+   * before the index existed, or whose index was deleted). Use it to show
+   * the impact of a change, or to refuse removing a space that is still
+   * mounted.
+   */
+  dependents(origin: RfsOrigin): Promise<RfsDependent[]>;
+
+  /**
+   * Mark a space as stale so that it is rebuilt
+   *
+   * Emits a `space:invalidated` event for every space touched. A command
+   * running on a space finishes before the space is marked (or rebuilt);
+   * calling this from inside onCommand for that space throws.
+   */
+  invalidate(origin: RfsOrigin, options?: RfsInvalidateOptions): Promise<RfsInvalidateResult>;
+
+  /**
+   * Rebuild a space from its origin and command history, and compare
+   *
+   * Runs onInit in a scratch directory, re-applies every recorded command in
+   * order, and compares each command's exports/metadata with the recorded
+   * result, then the final state with the manifest (including the content
+   * digest). A revert record restores the replayed state after the record
+   * the snapshot was taken at. The space itself is not modified. Replays
+   * emit no custom events.
+   *
+   * The kind must be known to the store (see `RfsStoreOptions.kinds`).
+   *
+   * @returns The replay report, or null if the space does not exist
+   * @throws If the kind is unknown, the space was built by a different
+   * version of the kind, or the command history was compacted
+   */
+  replay(origin: RfsOrigin): Promise<RfsReplayResult | null>;
+
+  /**
+   * Collect spaces that are not reachable from the given roots
+   *
+   * Also removes orphaned temporary directories left behind by crashed
+   * builds. Temp directories of builds in flight in this store, and those
+   * modified within `tempGraceMs`, are kept. Reachable spaces with an
+   * unreadable manifest are reported in `unreadable` rather than failing gc.
+   */
+  gc(options: RfsGcOptions): Promise<RfsGcResult>;
 }
@@ -0,0 +1,120 @@
+/**
+ * Content digest and size
+ *
+ * Computes a Merkle-style SHA-256 digest over a space directory so that
+ * cached spaces can be checked for modifications made after they were built,
+ * and measures the directory for build stats.
+ *
+ * Rules:
+ * - A file hashes as `sha256("file\0" + bytes)`
+ * - A dependency mount hashes as `sha256("mount\0" + mountPath)` — mounted
+ *   content belongs to the dependency, so it is not followed
+ * - A directory hashes as `sha256` of its sorted entries, one
+ *   `{type} {hash} {name}\n` line per entry
+ */
+
+import type { RfsAdapter } from './defs';
+
+const encoder = new TextEncoder();
+
+function concatBytes(a: Uint8Array, b: Uint8Array): Uint8Array {
+  const out = new Uint8Array(a.length + b.length);
+  out.set(a, 0);
+  out.set(b, a.length);
+  return out;
+}
+
+/** A mount path relative to space/, without `.` segments or extra slashes */
+export function normalizeMountPath(mountPath: string): string {
+  return mountPath.split('/').filter(part => part && part !== '.').join('/');
+}
+
+/**
+ * Compute the content digest of a directory
+ *
+ * @param adapter - Platform adapter (provides readDir/stat/readFile/hash)
+ * @param dir - Absolute path of the directory to digest (typically `space/`)
+ * @param mountPaths - Dependency mount paths (relative to dir) that are hashed by name only
+ * @returns Lowercase hex SHA-256 digest
+ */
+export async function computeContentDigest(
+  adapter: RfsAdapter,
+  dir: string,
+  mountPaths: Iterable<string> = [],
+): Promise<string> {
+  const mounts = new Set<string>();
+  for (const mountPath of mountPaths) {
+    mounts.add(normalizeMountPath(mountPath));
+  }
+
+  async function digestDir(absPath: string, relPath: string): Promise<string> {
+    const names = [...(await adapter.readDir(absPath))].sort();
+    let listing = '';
+
+    for (const name of names) {
+      const childAbs = absPath + '/' + name;
+      const childRel = relPath ? relPath + '/' + name : name;
+
+      if (mounts.has(childRel)) {
+        const hash = await adapter.hash(encoder.encode('mount\0' + childRel));
+        listing += `mount ${hash} ${name}\n`;
+        continue;
+      }
+
+      const stat = await adapter.stat(childAbs);
+      if (stat.isDirectory) {
+        listing += `dir ${await digestDir(childAbs, childRel)} ${name}\n`;
+      } else {
+        const bytes = await adapter.readFile(childAbs);
+        const hash = await adapter.hash(concatBytes(encoder.encode('file\0'), bytes));
+        listing += `file ${hash} ${name}\n`;
+      }
+    }
+
+    return adapter.hash(encoder.encode(listing));
+  }
+
+  return digestDir(dir.replace(/\/+$/, ''), '');
+}
+
+/**
+ * Count the files of a directory and sum their sizes
+ *
+ * Dependency mounts are skipped, as in computeContentDigest.
+ *
+ * @param adapter - Platform adapter (provides readDir/stat)
+ * @param dir - Absolute path of the directory to measure (typically `space/`)
+ * @param mountPaths - Dependency mount paths (relative to dir) to skip
+ */
+export async function measureDirectory(
+  adapter: RfsAdapter,
+  dir: string,
+  mountPaths: Iterable<string> = [],
+): Promise<{ fileCount: number; byteSize: number }> {
+  const mounts = new Set<string>();
+  for (const mountPath of mountPaths) {
+    mounts.add(normalizeMountPath(mountPath));
+  }
+
+  let fileCount = 0;
+  let byteSize = 0;
+
+  async function walk(absPath: string, relPath: string): Promise<void> {
+    for (const name of await adapter.readDir(absPath)) {
+      const childAbs = absPath + '/' + name;
+      const childRel = relPath ? relPath + '/' + name : name;
+      if (mounts.has(childRel)) continue;
+
+      const stat = await adapter.stat(childAbs);
+      if (stat.isDirectory) {
+        await walk(childAbs, childRel);
+      } else {
+        fileCount++;
+        byteSize += stat.size;
+      }
+    }
+  }
+
+  await walk(dir.replace(/\/+$/, ''), '');
+  return { fileCount, byteSize };
+}
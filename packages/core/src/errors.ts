@@ -0,0 +1,65 @@
+/**
+ * Error classes
+ *
+ * Errors that callers are expected to tell apart (with `instanceof`) from
+ * failures thrown by hooks or adapters.
+ */
+
+import type { RfsSchemaIssue } from './defs';
+
+function formatIssue(issue: RfsSchemaIssue): string {
+  const path = (issue.path ?? [])
+    .map(segment => String(typeof segment === 'object' ? segment.key : segment))
+    .join('.');
+  return path ? `${path}: ${issue.message}` : issue.message;
+}
+
+/**
+ * Thrown when a value is rejected by a kind's schema
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await space.send(command);
+ * } catch (err) {
+ *   if (err instanceof RfsValidationError) console.log(err.issues);
+ * }
+ * ```
+ */
+export class RfsValidationError extends Error {
+  /** Issues reported by the schema */
+  readonly issues: ReadonlyArray<RfsSchemaIssue>;
+
+  /**
+   * @param context - What was validated (e.g. `command for kind "counter"`)
+   * @param issues - Issues reported by the schema
+   */
+  constructor(context: string, issues: ReadonlyArray<RfsSchemaIssue>) {
+    super(`Invalid ${context}: ${issues.map(formatIssue).join('; ')}`);
+    this.name = 'RfsValidationError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * Thrown when a space depends on itself, directly or through other spaces
+ *
+ * `cycle` lists the spaces from the first occurrence of the repeated space
+ * to the dep() that would re-enter it, e.g. `a → b → a`. Spaces built in
+ * parallel that mount each other (`b → c` while `c → b`) are reported the
+ * same way, by the dep() that would wait on the other branch.
+ */
+export class RfsCycleError extends Error {
+  /** Spaces forming the cycle; the first and last entries are the same space */
+  readonly cycle: ReadonlyArray<{ readonly kind: string; readonly dataId: string }>;
+
+  /**
+   * @param cycle - Spaces forming the cycle, outermost first
+   */
+  constructor(cycle: ReadonlyArray<{ readonly kind: string; readonly dataId: string }>) {
+    const path = cycle.map(frame => `${frame.kind}(${frame.dataId.slice(0, 8)})`).join(' -> ');
+    super(`Dependency cycle: ${path}`);
+    this.name = 'RfsCycleError';
+    this.cycle = cycle;
+  }
+}
@@ -9,5 +9,8 @@ export * from './defs';
 
 // Runtime functions
 export { canonicalStringify } from './canonical';
+export type { RfsCanonicalOptions } from './canonical';
 export { defineKind } from './define-kind';
 export { createStore } from './create-store';
+export { memoryLocker } from './memory-locker';
+export { RfsValidationError, RfsCycleError } from './errors';
@@ -0,0 +1,81 @@
+/**
+ * memoryLocker — In-process lock provider
+ *
+ * A keyed mutex implementing RfsLocker for a single JavaScript process.
+ * Used by createStore() when no locker is provided, so concurrent
+ * ensure() calls for the same dataId build once: the second caller waits
+ * for the first build and then takes the cache-hit path.
+ */
+
+import type { RfsLocker, RfsLockHandle } from './defs';
+
+function waitUnlessAborted(promise: Promise<void>, signal?: AbortSignal): Promise<void> {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(new Error('Operation aborted'));
+
+  return new Promise<void>((resolve, reject) => {
+    const onAbort = () => reject(new Error('Operation aborted'));
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    });
+  });
+}
+
+/**
+ * Create an in-process lock provider
+ *
+ * Locks are granted per key in FIFO order. Waiters whose signal aborts
+ * leave the queue without blocking the callers behind them.
+ *
+ * @returns A frozen RfsLocker backed by in-memory promise chains
+ *
+ * @example
+ * ```typescript
+ * import { createStore, memoryLocker } from '@radium-fs/core';
+ *
+ * const store = createStore({
+ *   root: '/project',
+ *   adapter: nodeAdapter(),
+ *   locker: memoryLocker(),
+ * });
+ * ```
+ */
+export function memoryLocker(): RfsLocker {
+  // Tail of the wait chain per key; resolves once every queued holder released
+  const tails = new Map<string, Promise<void>>();
+
+  const locker: RfsLocker = {
+    async acquire(key: string, signal?: AbortSignal): Promise<RfsLockHandle> {
+      const previous = tails.get(key) ?? Promise.resolve();
+
+      let unlock!: () => void;
+      const held = new Promise<void>((resolve) => { unlock = resolve; });
+      const tail = previous.then(() => held);
+      tails.set(key, tail);
+      tail.then(() => {
+        if (tails.get(key) === tail) tails.delete(key);
+      });
+
+      try {
+        await waitUnlessAborted(previous, signal);
+      } catch (err) {
+        // Give up our turn; callers behind us still wait for `previous`
+        unlock();
+        throw err;
+      }
+
+      let released = false;
+      return {
+        async release() {
+          if (released) return;
+          released = true;
+          unlock();
+        },
+      };
+    },
+  };
+
+  return Object.freeze(locker);
+}
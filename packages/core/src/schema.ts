@@ -0,0 +1,35 @@
+/**
+ * Schema validation
+ *
+ * Runs an RfsSchema and turns reported issues into an RfsValidationError.
+ */
+
+import type { RfsSchema } from './defs';
+import { RfsValidationError } from './errors';
+
+/** Check whether a value implements the RfsSchema (Standard Schema) interface */
+export function isRfsSchema(value: unknown): value is RfsSchema {
+  const standard = (value as { '~standard'?: { validate?: unknown } } | null)?.['~standard'];
+  return typeof standard?.validate === 'function';
+}
+
+/**
+ * Validate a value against a schema
+ *
+ * @param schema - Schema to run
+ * @param value - Value to validate
+ * @param context - What is validated, used in the error message
+ * @returns The validated (possibly transformed) value
+ * @throws RfsValidationError if the schema reports issues
+ */
+export async function validateSchema<TOutput>(
+  schema: RfsSchema<TOutput>,
+  value: unknown,
+  context: string,
+): Promise<TOutput> {
+  const result = await schema['~standard'].validate(value);
+  if (result.issues) {
+    throw new RfsValidationError(context, result.issues);
+  }
+  return result.value;
+}
@@ -0,0 +1,119 @@
+/**
+ * JSON for the files a store writes (manifests, logs, snapshots)
+ *
+ * Inputs may hold values plain JSON cannot represent but canonicalStringify
+ * hashes with tagged encodings: written as plain JSON, a `Map` would come
+ * back as `{}` and a `bigint` would not be written at all, so the dataId
+ * recomputed from a stored origin would no longer match. These values are
+ * stored as tagged objects and revived on read:
+ * - `Date` → `{"$rfs":"Date","value":"2024-01-01T00:00:00.000Z"}` (`null` if invalid)
+ * - `bigint` → `{"$rfs":"bigint","value":"12"}`
+ * - `Map` → `{"$rfs":"Map","entries":[[key,value],...]}`
+ * - `Set` → `{"$rfs":"Set","values":[value,...]}`
+ * - Typed arrays and `DataView` → `{"$rfs":"Uint8Array","values":[1,2,3]}`
+ *   (bigint and non-finite elements as strings, bytes for `DataView`)
+ *
+ * As in canonicalStringify, functions and symbols are stored as `null` and
+ * other class instances as plain objects, so a revived origin hashes to the
+ * same dataId. A plain object key `$rfs` is stored as `$$rfs` (and `$$rfs`
+ * as `$$$rfs`, and so on), so user data never reads back as a tag.
+ */
+
+const TAG = '$rfs';
+
+/** Object keys escaped on write (so they never read back as the tag), and on read */
+const KEY_TO_ESCAPE = /^\$+rfs$/;
+const ESCAPED_KEY = /^\$\$+rfs$/;
+
+const TYPED_ARRAYS: Record<string, new (values: never) => ArrayBufferView> = {
+  Int8Array,
+  Uint8Array,
+  Uint8ClampedArray,
+  Int16Array,
+  Uint16Array,
+  Int32Array,
+  Uint32Array,
+  Float32Array,
+  Float64Array,
+  BigInt64Array,
+  BigUint64Array,
+};
+
+/** Serialize a value for a stored file, tagging values JSON cannot represent */
+export function stringifyStored(value: unknown, space?: number): string {
+  return JSON.stringify(encode(value), null, space);
+}
+
+/** Parse a stored file, reviving tagged values */
+export function parseStored<T>(text: string): T {
+  return JSON.parse(text, revive) as T;
+}
+
+function encode(value: unknown): unknown {
+  if (typeof value === 'bigint') return { [TAG]: 'bigint', value: value.toString() };
+  if (typeof value === 'function' || typeof value === 'symbol') return null;
+  if (value === null || typeof value !== 'object') return value;
+
+  if (Array.isArray(value)) return value.map(encode);
+
+  if (value instanceof Date) {
+    return { [TAG]: 'Date', value: Number.isNaN(value.getTime()) ? null : value.toISOString() };
+  }
+  if (value instanceof Map) {
+    return { [TAG]: 'Map', entries: [...value].map(([k, v]) => [encode(k), encode(v)]) };
+  }
+  if (value instanceof Set) {
+    return { [TAG]: 'Set', values: [...value].map(encode) };
+  }
+  if (ArrayBuffer.isView(value)) {
+    const tag = Object.prototype.toString.call(value).slice(8, -1);
+    const values = value instanceof DataView
+      ? Array.from(new Uint8Array(value.buffer, value.byteOffset, value.byteLength))
+      : Array.from(value as unknown as ArrayLike<number | bigint>, item =>
+        typeof item === 'bigint' || !Number.isFinite(item) ? String(item) : item);
+    return { [TAG]: tag, values };
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    result[KEY_TO_ESCAPE.test(key) ? '$' + key : key] = encode(item);
+  }
+  return result;
+}
+
+/** JSON.parse reviver: runs bottom-up, so nested values are already revived */
+function revive(this: unknown, _key: string, value: unknown): unknown {
+  if (value === null || typeof value !== 'object' || Array.isArray(value)) return value;
+
+  const obj = value as Record<string, unknown>;
+  if (typeof obj[TAG] === 'string') return reviveTagged(obj[TAG] as string, obj);
+
+  for (const key of Object.keys(obj)) {
+    if (ESCAPED_KEY.test(key)) {
+      const item = obj[key];
+      delete obj[key];
+      obj[key.slice(1)] = item;
+    }
+  }
+  return obj;
+}
+
+function reviveTagged(tag: string, obj: Record<string, unknown>): unknown {
+  switch (tag) {
+    case 'bigint':
+      return BigInt(obj.value as string);
+    case 'Date':
+      return new Date(obj.value === null ? NaN : obj.value as string);
+    case 'Map':
+      return new Map(obj.entries as [unknown, unknown][]);
+    case 'Set':
+      return new Set(obj.values as unknown[]);
+    case 'DataView':
+      return new DataView(new Uint8Array(obj.values as number[]).buffer);
+  }
+
+  const TypedArray = TYPED_ARRAYS[tag];
+  if (!TypedArray) throw new Error(`Unknown stored value tag "${tag}"`);
+  const values = obj.values as (number | string)[];
+  return new TypedArray(values.map(item => tag.startsWith('Big') ? BigInt(item) : Number(item)) as never);
+}
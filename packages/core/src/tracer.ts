@@ -0,0 +1,42 @@
+/**
+ * Tracing helpers — the default no-op tracer and span wrapping
+ *
+ * Used by createStore(); `RfsStoreOptions.tracer` replaces the no-op
+ * tracer with a real one.
+ */
+
+import type { RfsSpan, RfsSpanAttributes, RfsTracer } from './defs';
+
+const noopSpan: RfsSpan = {
+  setAttribute() { return noopSpan; },
+  recordException() { /* */ },
+  end() { /* */ },
+};
+
+/** Tracer used when the store is created without one */
+export const noopTracer: RfsTracer = {
+  startSpan: () => noopSpan,
+};
+
+/**
+ * Run `work` inside a new span, recording a thrown error on it
+ *
+ * The span ends when `work` settles, whether it resolves or rejects.
+ */
+export async function withSpan<T>(
+  tracer: RfsTracer,
+  name: string,
+  attributes: RfsSpanAttributes,
+  parent: RfsSpan | undefined,
+  work: (span: RfsSpan) => Promise<T>,
+): Promise<T> {
+  const span = tracer.startSpan(name, attributes, parent);
+  try {
+    return await work(span);
+  } catch (err) {
+    span.recordException(err instanceof Error ? err : new Error(String(err)));
+    throw err;
+  } finally {
+    span.end();
+  }
+}
@@ -78,6 +78,23 @@ describe('writeFile + readFile', () => {
   });
 });
 
+describe('appendFile', () => {
+  it('appends to an existing file', async () => {
+    const adapter = create();
+    await adapter.writeFile('/log.txt', 'a\n');
+    await adapter.appendFile!('/log.txt', 'b\n');
+    await adapter.appendFile!('/log.txt', new Uint8Array([99, 10]));
+    expect(decode(await adapter.readFile('/log.txt'))).toBe('a\nb\nc\n');
+  });
+
+  it('creates the file and parent directories if missing', async () => {
+    const adapter = create();
+    await adapter.appendFile!('/x/y/log.txt', 'first');
+    expect(await adapter.exists('/x/y')).toBe(true);
+    expect(decode(await adapter.readFile('/x/y/log.txt'))).toBe('first');
+  });
+});
+
 describe('mkdir', () => {
   it('creates nested directories', async () => {
     const adapter = create();
@@ -170,6 +170,19 @@ export function memoryAdapter(): RfsAdapter {
       store.set(norm, { type: 'file', content: data, mtime: new Date() });
     },
 
+    async appendFile(path: string, content: string | Uint8Array): Promise<void> {
+      const norm = normalizePath(path);
+      const existing = store.get(norm);
+      if (existing?.type !== 'file') {
+        return adapter.writeFile(path, content);
+      }
+      const data = typeof content === 'string' ? encoder.encode(content) : content;
+      const combined = new Uint8Array(existing.content.length + data.length);
+      combined.set(existing.content, 0);
+      combined.set(data, existing.content.length);
+      store.set(norm, { type: 'file', content: combined, mtime: new Date() });
+    },
+
     async mkdir(path: string): Promise<void> {
       const norm = normalizePath(path);
       const parts = norm.split('/').filter(Boolean);
@@ -269,6 +282,18 @@ export function memoryAdapter(): RfsAdapter {
       store.set(norm, { type: 'symlink', target, mtime: new Date() });
     },
 
+    async readLink(path: string): Promise<string | null> {
+      // Follow symlinks in the parent components, not in the last one
+      const norm = normalizePath(path);
+      const parent = resolvePath(parentDir(norm));
+      const name = norm.slice(norm.lastIndexOf('/') + 1);
+      const entry = store.get(parent === '/' ? '/' + name : parent + '/' + name);
+      if (!entry) {
+        throw new Error(`ENOENT: no such file or directory: ${path}`);
+      }
+      return entry.type === 'symlink' ? entry.target : null;
+    },
+
     async glob(
       root: string,
       pattern: string,
@@ -0,0 +1,190 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { spawnSync } from 'node:child_process';
+import { hostname, tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { mkdtemp, readFile, rm, stat, unlink, utimes, writeFile, mkdir } from 'node:fs/promises';
+import { fileLocker } from '@radium-fs/node';
+
+// Lets a test act right before the locker's next rename (its takeover)
+const hooks = vi.hoisted(() => ({ beforeRename: null as ((from: string) => Promise<void>) | null }));
+
+vi.mock('node:fs/promises', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('node:fs/promises')>();
+  return {
+    ...actual,
+    async rename(from: string, to: string) {
+      const hook = hooks.beforeRename;
+      hooks.beforeRename = null;
+      if (hook) await hook(from);
+      return actual.rename(from, to);
+    },
+  };
+});
+
+const sleep = (ms: number) => new Promise(r => setTimeout(r, ms));
+
+let root: string;
+
+beforeEach(async () => {
+  root = await mkdtemp(join(tmpdir(), 'rfs-locker-'));
+});
+
+afterEach(async () => {
+  hooks.beforeRename = null;
+  await rm(root, { recursive: true, force: true });
+});
+
+function lockPath(key: string): string {
+  return join(root, '.radium-fs-locks', encodeURIComponent(key) + '.lock');
+}
+
+/** Write a lock file as another holder would, optionally backdating its heartbeat */
+async function plantLock(key: string, owner: { pid: number; hostname: string }, ageMs = 0): Promise<void> {
+  await mkdir(join(root, '.radium-fs-locks'), { recursive: true });
+  const path = lockPath(key);
+  await writeFile(path, JSON.stringify({ ...owner, token: 'planted', acquiredAt: new Date().toISOString() }));
+  if (ageMs > 0) {
+    const past = new Date(Date.now() - ageMs);
+    await utimes(path, past, past);
+  }
+}
+
+async function readToken(key: string): Promise<string> {
+  return JSON.parse(await readFile(lockPath(key), 'utf8')).token;
+}
+
+describe('fileLocker()', () => {
+  it('grants a key to one holder at a time', async () => {
+    const a = fileLocker({ root, retryMs: 5 });
+    const b = fileLocker({ root, retryMs: 5 });
+    const order: string[] = [];
+
+    const first = await a.acquire('space');
+    const waiting = b.acquire('space').then(handle => {
+      order.push('b acquired');
+      return handle;
+    });
+
+    await sleep(30);
+    order.push('a releasing');
+    await first.release();
+
+    const second = await waiting;
+    expect(order).toEqual(['a releasing', 'b acquired']);
+    await second.release();
+  });
+
+  it('keeps different keys independent', async () => {
+    const locker = fileLocker({ root });
+    const a = await locker.acquire('a');
+    const b = await locker.acquire('b');
+    await a.release();
+    await b.release();
+  });
+
+  it('takes over a lock whose heartbeat is older than staleMs', async () => {
+    await plantLock('space', { pid: process.pid, hostname: 'elsewhere' }, 10_000);
+    const locker = fileLocker({ root, staleMs: 1_000, retryMs: 5 });
+
+    const handle = await locker.acquire('space');
+    expect(await readToken('space')).not.toBe('planted');
+    await handle.release();
+  });
+
+  it('takes over a fresh lock whose owner process on this host is gone', async () => {
+    const { pid } = spawnSync(process.execPath, ['-e', '']);
+    await plantLock('space', { pid, hostname: hostname() });
+    const locker = fileLocker({ root, retryMs: 5 });
+
+    const handle = await locker.acquire('space');
+    expect(await readToken('space')).not.toBe('planted');
+    await handle.release();
+  });
+
+  it('gives back a fresh lock that replaced the stale one before the takeover', async () => {
+    await plantLock('space', { pid: process.pid, hostname: 'elsewhere' }, 10_000);
+    hooks.beforeRename = async (path) => {
+      // The stale holder releases and a live process locks again
+      await unlink(path);
+      await writeFile(path, JSON.stringify({ pid: process.pid, hostname: hostname(), token: 'fresh' }));
+    };
+    const locker = fileLocker({ root, staleMs: 1_000, retryMs: 5 });
+    const controller = new AbortController();
+
+    const waiting = locker.acquire('space', controller.signal);
+    await sleep(30);
+    expect(await readToken('space')).toBe('fresh');
+
+    controller.abort();
+    await expect(waiting).rejects.toThrow('Operation aborted');
+  });
+
+  it('waits on a fresh lock of a live owner', async () => {
+    await plantLock('space', { pid: process.pid, hostname: hostname() });
+    const locker = fileLocker({ root, retryMs: 5 });
+    const controller = new AbortController();
+
+    const waiting = locker.acquire('space', controller.signal);
+    await sleep(30);
+    expect(await readToken('space')).toBe('planted');
+
+    controller.abort();
+    await expect(waiting).rejects.toThrow('Operation aborted');
+  });
+
+  it('rejects when the signal aborts while waiting, leaving the lock to its holder', async () => {
+    const locker = fileLocker({ root, retryMs: 5 });
+    const held = await locker.acquire('space');
+    const token = await readToken('space');
+    const controller = new AbortController();
+
+    const waiting = locker.acquire('space', controller.signal);
+    setTimeout(() => controller.abort(), 20);
+
+    await expect(waiting).rejects.toThrow('Operation aborted');
+    expect(await readToken('space')).toBe(token);
+    await held.release();
+  });
+
+  it('releases only a lock that is still its own', async () => {
+    const locker = fileLocker({ root });
+    const handle = await locker.acquire('space');
+
+    // Another process took the lock over in the meantime
+    await plantLock('space', { pid: process.pid, hostname: 'elsewhere' });
+    await handle.release();
+
+    expect(await readToken('space')).toBe('planted');
+  });
+
+  it('removes its lock file on release', async () => {
+    const locker = fileLocker({ root });
+    const handle = await locker.acquire('space');
+    await handle.release();
+    await handle.release();
+
+    await expect(stat(lockPath('space'))).rejects.toMatchObject({ code: 'ENOENT' });
+  });
+
+  it('keeps its lock fresh while held', async () => {
+    const locker = fileLocker({ root, staleMs: 150 });
+    const handle = await locker.acquire('space');
+    const past = new Date(Date.now() - 10_000);
+    await utimes(lockPath('space'), past, past);
+
+    await sleep(120);
+    expect(Date.now() - (await stat(lockPath('space'))).mtimeMs).toBeLessThan(150);
+    await handle.release();
+  });
+
+  it('stops the heartbeat once the lock was taken over', async () => {
+    const locker = fileLocker({ root, staleMs: 150 });
+    const handle = await locker.acquire('space');
+
+    await plantLock('space', { pid: process.pid, hostname: 'elsewhere' }, 10_000);
+    await sleep(120);
+
+    expect(Date.now() - (await stat(lockPath('space'))).mtimeMs).toBeGreaterThan(5_000);
+    await handle.release();
+  });
+});
@@ -0,0 +1,264 @@
+/**
+ * fileLocker — Cross-process lock provider for Node.js
+ *
+ * Implements RfsLocker with exclusive lock files, so multiple Node.js
+ * processes (or machines on a shared volume) that share one store root
+ * build each space once.
+ */
+
+import { randomBytes } from 'node:crypto';
+import { hostname } from 'node:os';
+import { join } from 'node:path';
+import {
+  open as fsOpen,
+  mkdir as fsMkdir,
+  readFile as fsReadFile,
+  stat as fsStat,
+  rename as fsRename,
+  link as fsLink,
+  unlink as fsUnlink,
+} from 'node:fs/promises';
+import type { FileHandle } from 'node:fs/promises';
+import type { RfsLocker, RfsLockHandle } from '@radium-fs/core';
+
+/** Directory (under the store root) holding the lock files */
+const LOCKS_DIRNAME = '.radium-fs-locks';
+
+/** Options for fileLocker */
+export interface RfsFileLockerOptions {
+  /** Store root directory (lock files are created in `{root}/.radium-fs-locks/`) */
+  root: string;
+
+  /**
+   * Age (ms) after which a lock without heartbeat is considered abandoned
+   * and may be taken over. The holder refreshes its lock every `staleMs / 3`.
+   *
+   * Default: `30000`
+   */
+  staleMs?: number;
+
+  /**
+   * Delay (ms) between acquisition attempts while the lock is held elsewhere
+   *
+   * Default: `100`
+   */
+  retryMs?: number;
+}
+
+/** Lock file content */
+interface LockOwner {
+  pid: number;
+  hostname: string;
+  token: string;
+  acquiredAt: string;
+}
+
+function isErrorCode(err: unknown, code: string): boolean {
+  return typeof err === 'object' && err !== null && (err as { code?: unknown }).code === code;
+}
+
+function abortError(): Error {
+  return new Error('Operation aborted');
+}
+
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (err) {
+    // EPERM: the process exists but belongs to another user
+    return isErrorCode(err, 'EPERM');
+  }
+}
+
+async function readOwner(lockPath: string): Promise<LockOwner | null> {
+  try {
+    return JSON.parse(await fsReadFile(lockPath, 'utf8')) as LockOwner;
+  } catch {
+    // Missing, or caught between create and write
+    return null;
+  }
+}
+
+/**
+ * Create a file-based lock provider
+ *
+ * Each key maps to `{root}/.radium-fs-locks/{key}.lock`, created with an
+ * exclusive open. The holder records its PID and host in the file and keeps
+ * its mtime fresh (heartbeat). A lock is taken over when its heartbeat is
+ * older than `staleMs`, or when its owner ran on this host and the process
+ * no longer exists.
+ *
+ * @returns A frozen RfsLocker to pass as `createStore({ locker })`
+ *
+ * @example
+ * ```typescript
+ * import { createStore } from '@radium-fs/core';
+ * import { nodeAdapter, fileLocker } from '@radium-fs/node';
+ *
+ * const store = createStore({
+ *   root: '/shared/project',
+ *   adapter: nodeAdapter(),
+ *   locker: fileLocker({ root: '/shared/project' }),
+ * });
+ * ```
+ */
+export function fileLocker(options: RfsFileLockerOptions): RfsLocker {
+  const locksDir = join(options.root, LOCKS_DIRNAME);
+  const staleMs = options.staleMs ?? 30_000;
+  const retryMs = options.retryMs ?? 100;
+  const host = hostname();
+
+  /** Whether a lock last refreshed at mtimeMs by owner may be taken over */
+  function isStale(owner: LockOwner | null, mtimeMs: number): boolean {
+    if (Date.now() - mtimeMs > staleMs) return true;
+    return owner !== null && owner.hostname === host && !isProcessAlive(owner.pid);
+  }
+
+  /**
+   * Move an abandoned lock out of the way and delete it. The rename is
+   * atomic, so only one contender wins. The holder may have released the
+   * lock and another one created a fresh lock between our staleness check
+   * and the rename, so the moved file is checked again: if it is not the
+   * lock judged stale, or is no longer stale, it is linked back (keeping
+   * its inode, so its holder's heartbeat carries on). If a new lock already
+   * took the path, the displaced holder finds its token gone at its next
+   * heartbeat and stops refreshing.
+   *
+   * @param staleToken - Token of the lock judged stale (undefined if unreadable)
+   */
+  async function takeOver(lockPath: string, staleToken: string | undefined): Promise<void> {
+    const asidePath = `${lockPath}.stale-${randomBytes(4).toString('hex')}`;
+    try {
+      await fsRename(lockPath, asidePath);
+    } catch {
+      return; // Another contender moved it first
+    }
+
+    try {
+      const moved = await readOwner(asidePath);
+      const { mtimeMs } = await fsStat(asidePath);
+      if (moved?.token !== staleToken || !isStale(moved, mtimeMs)) {
+        await fsLink(asidePath, lockPath).catch(() => { /* a new lock took the path */ });
+      }
+    } finally {
+      await fsUnlink(asidePath).catch(() => { /* best effort */ });
+    }
+  }
+
+  /**
+   * Refresh the mtime of the lock if it still carries our token. The check
+   * and the update go through one file handle, so a lock file that replaced
+   * ours in between is never touched.
+   *
+   * @returns false once the lock is no longer ours
+   */
+  async function refresh(lockPath: string, token: string): Promise<boolean> {
+    let handle: FileHandle;
+    try {
+      handle = await fsOpen(lockPath, 'r');
+    } catch {
+      return false;
+    }
+    try {
+      const current = JSON.parse(await handle.readFile('utf8')) as LockOwner;
+      if (current.token !== token) return false;
+      const now = new Date();
+      await handle.utimes(now, now);
+      return true;
+    } catch {
+      return false;
+    } finally {
+      await handle.close();
+    }
+  }
+
+  async function tryCreate(lockPath: string, owner: LockOwner): Promise<boolean> {
+    try {
+      const handle = await fsOpen(lockPath, 'wx');
+      try {
+        await handle.writeFile(JSON.stringify(owner));
+      } finally {
+        await handle.close();
+      }
+      return true;
+    } catch (err) {
+      if (isErrorCode(err, 'EEXIST')) return false;
+      throw err;
+    }
+  }
+
+  const locker: RfsLocker = {
+    async acquire(key: string, signal?: AbortSignal): Promise<RfsLockHandle> {
+      const lockPath = join(locksDir, encodeURIComponent(key) + '.lock');
+      const owner: LockOwner = {
+        pid: process.pid,
+        hostname: host,
+        token: randomBytes(16).toString('hex'),
+        acquiredAt: new Date().toISOString(),
+      };
+
+      await fsMkdir(locksDir, { recursive: true });
+
+      while (!(await tryCreate(lockPath, owner))) {
+        if (signal?.aborted) throw abortError();
+
+        try {
+          const current = await fsStat(lockPath);
+          const currentOwner = await readOwner(lockPath);
+          if (isStale(currentOwner, current.mtimeMs)) {
+            await takeOver(lockPath, currentOwner?.token);
+            continue;
+          }
+        } catch (err) {
+          // Released between our create attempt and stat — retry right away
+          if (isErrorCode(err, 'ENOENT')) continue;
+          throw err;
+        }
+
+        await delay(retryMs, signal);
+      }
+
+      // Heartbeat: keep the lock fresh while it is held, stop once it was taken over
+      const heartbeat = setInterval(async () => {
+        if (!(await refresh(lockPath, owner.token))) clearInterval(heartbeat);
+      }, Math.max(1, Math.floor(staleMs / 3)));
+      heartbeat.unref();
+
+      let released = false;
+      return {
+        async release() {
+          if (released) return;
+          released = true;
+          clearInterval(heartbeat);
+
+          // Only remove the lock file if it is still ours
+          const current = await readOwner(lockPath);
+          if (current?.token === owner.token) {
+            await fsUnlink(lockPath).catch(() => { /* already gone */ });
+          }
+        },
+      };
+    },
+  };
+
+  return Object.freeze(locker);
+}
@@ -2,6 +2,7 @@
  * @radium-fs/node — Node.js platform adapter
  *
  * Implements RfsAdapter using Node.js built-in modules (node:fs, node:crypto).
+ * Also provides fileLocker(), a cross-process RfsLocker based on lock files.
  * Requires Node.js >= 22 for built-in fs.glob support.
  */
 
@@ -9,6 +10,7 @@ import { createHash } from 'node:crypto';
 import {
   readFile as fsReadFile,
   writeFile as fsWriteFile,
+  appendFile as fsAppendFile,
   mkdir as fsMkdir,
   readdir as fsReaddir,
   stat as fsStat,
@@ -16,6 +18,7 @@ import {
   rm as fsRm,
   rename as fsRename,
   symlink as fsSymlink,
+  readlink as fsReadlink,
   glob as fsGlob,
 } from 'node:fs/promises';
 import { dirname, join } from 'node:path';
@@ -29,6 +32,9 @@ import type {
   RfsGrepOptions,
 } from '@radium-fs/core';
 
+export { fileLocker } from './file-locker';
+export type { RfsFileLockerOptions } from './file-locker';
+
 /**
  * Create a Node.js platform adapter
  *
@@ -64,6 +70,11 @@ export function nodeAdapter(): RfsAdapter {
       await fsWriteFile(path, content);
     },
 
+    async appendFile(path: string, content: string | Uint8Array): Promise<void> {
+      await fsMkdir(dirname(path), { recursive: true });
+      await fsAppendFile(path, content);
+    },
+
     async mkdir(path: string): Promise<void> {
       await fsMkdir(path, { recursive: true });
     },
@@ -108,6 +119,16 @@ export function nodeAdapter(): RfsAdapter {
       await fsSymlink(target, linkPath);
     },
 
+    async readLink(path: string): Promise<string | null> {
+      try {
+        return await fsReadlink(path);
+      } catch (err) {
+        // EINVAL: the path exists but is not a symlink
+        if ((err as { code?: unknown }).code === 'EINVAL') return null;
+        throw err;
+      }
+    },
+
     async glob(
       root: string,
       pattern: string,
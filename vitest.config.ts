@@ -14,6 +14,7 @@ export default defineConfig({
     alias: {
       '@radium-fs/core': resolve(__dirname, 'packages/core/src/index.ts'),
       '@radium-fs/memory': resolve(__dirname, 'packages/memory/src/index.ts'),
+      '@radium-fs/node': resolve(__dirname, 'packages/node/src/index.ts'),
     },
   },
 });